@@ -0,0 +1,337 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { WattBoxClient, WattBoxDevice, WattBoxError, WattBoxNotConnectedError, WattBoxOutletAction, WattBoxOutletMode } from './module.js';
+import type { WattBoxClientOpts, WattBoxTransportType } from './module.js';
+
+const USAGE = `Usage: wattbox [options] <command> [arguments]
+
+Commands:
+  info                                  Show device information
+  status                                Show outlet states
+  outlet <on|off|toggle|reset> <outlet> Control an outlet, 0 resets all outlets
+  names                                 Show outlet names
+  rename <outlet> <name>                Set an outlet name
+  mode <outlet> <enabled|disabled|reset-only>
+                                        Set an outlet mode
+  delay <outlet> <seconds>              Set an outlet power on delay
+  power [outlet]                        Show power metrics
+  ups                                   Show UPS metrics
+  watch                                 Stream outlet state changes
+  reboot                                Reboot the device
+
+Outlets may be given by number (1-indexed) or name.
+
+Options:
+  -H, --host <host>          WattBox host (WATTBOX_HOST)
+  -u, --username <username>  Login username (WATTBOX_USERNAME)
+  -p, --password <password>  Login password (WATTBOX_PASSWORD)
+      --port <port>          Port, default 23 for telnet and 22 for SSH (WATTBOX_PORT)
+      --transport <type>     telnet or ssh, default telnet (WATTBOX_TRANSPORT)
+  -c, --config <file>        JSON config file, default ~/.wattbox.json (WATTBOX_CONFIG)
+      --json                 Output JSON
+      --dry-run              Log control commands instead of sending them
+  -h, --help                 Show this help
+
+Exit Codes:
+  0 Success, 1 Usage error, 2 Connection error, 3 Authentication error, 4 Device error`;
+
+const COMMANDS = ['info', 'status', 'outlet', 'names', 'rename', 'mode', 'delay', 'power', 'ups', 'watch', 'reboot'];
+
+enum ExitCode {
+    SUCCESS = 0,
+    USAGE = 1,
+    CONNECTION = 2,
+    AUTH = 3,
+    DEVICE = 4
+}
+
+class UsageError extends Error { }
+
+/**
+ * Entry point for the wattbox command-line tool, runs a single command against a WattBox.
+ *
+ * The host and credentials are read from flags, the `WATTBOX_HOST`, `WATTBOX_USERNAME`,
+ * and `WATTBOX_PASSWORD` environment variables, or a JSON config file, in that order.
+ * @returns The process exit code
+ */
+async function main(): Promise<ExitCode> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            'host': { type: 'string', short: 'H' },
+            'username': { type: 'string', short: 'u' },
+            'password': { type: 'string', short: 'p' },
+            'port': { type: 'string' },
+            'transport': { type: 'string' },
+            'config': { type: 'string', short: 'c' },
+            'json': { type: 'boolean', default: false },
+            'dry-run': { type: 'boolean', default: false },
+            'help': { type: 'boolean', short: 'h', default: false }
+        }
+    });
+
+    const [command, ...args] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return values.help ? ExitCode.SUCCESS : ExitCode.USAGE;
+    }
+
+    if (!COMMANDS.includes(command)) {
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+
+    const configPath = values.config ?? process.env.WATTBOX_CONFIG ?? join(homedir(), '.wattbox.json');
+    const config = readConfig(configPath);
+
+    const host = values.host ?? process.env.WATTBOX_HOST ?? config.host?.toString();
+    const username = values.username ?? process.env.WATTBOX_USERNAME ?? config.username?.toString();
+    const password = values.password ?? process.env.WATTBOX_PASSWORD ?? config.password?.toString();
+    const port = values.port ?? process.env.WATTBOX_PORT ?? config.port?.toString();
+    const transport = values.transport ?? process.env.WATTBOX_TRANSPORT ?? config.transport?.toString();
+
+    if (!host || !username || !password) {
+        throw new UsageError('A host, username, and password are required.');
+    }
+
+    if (transport && transport !== 'telnet' && transport !== 'ssh') {
+        throw new UsageError(`Unknown transport: ${transport}`);
+    }
+
+    const opts: WattBoxClientOpts = { host, username, password, reconnect: { maxAttempts: 0 }, dryRun: values['dry-run'] };
+    if (port) {
+        opts.port = parseInt(port);
+    }
+    if (transport) {
+        opts.transport = transport as WattBoxTransportType;
+    }
+    if (values['dry-run']) {
+        opts.audit = entry => console.error(`Dry run: ${entry.command}`);
+    }
+
+    const client = new WattBoxClient(opts);
+    const output = (json: unknown, text: string) => console.log(values.json ? JSON.stringify(json, null, 2) : text);
+
+    await client.connect();
+
+    try {
+        switch (command) {
+            case 'info': {
+                const info = {
+                    model: await client.getModel(),
+                    serviceTag: await client.getServiceTag(),
+                    firmware: await client.getFirmware(),
+                    hostname: await client.getHostname(),
+                    outletCount: await client.getOutletCount(),
+                    autoReboot: await client.getAutoReboot(),
+                    upsConnected: await client.getUPSConnected()
+                };
+                output(info, [
+                    `Model:         ${info.model}`,
+                    `Service Tag:   ${info.serviceTag}`,
+                    `Firmware:      ${info.firmware}`,
+                    `Hostname:      ${info.hostname}`,
+                    `Outlet Count:  ${info.outletCount}`,
+                    `Auto Reboot:   ${info.autoReboot ? 'Enabled' : 'Disabled'}`,
+                    `UPS Connected: ${info.upsConnected ? 'Yes' : 'No'}`
+                ].join('\n'));
+                break;
+            }
+            case 'status': {
+                const names = await client.getOutletNames();
+                const outlets = (await client.getOutletStatus()).map((on, i) => ({ outlet: i + 1, name: names[i] ?? '', on }));
+                output(outlets, outlets.map(x => `${x.outlet.toString().padStart(2)}  ${x.on ? 'ON ' : 'OFF'}  ${x.name}`).join('\n'));
+                break;
+            }
+            case 'outlet': {
+                const [actionArg, outletArg] = args;
+                const action = WattBoxOutletAction[(actionArg ?? '').toUpperCase() as keyof typeof WattBoxOutletAction];
+                if (action === undefined || !outletArg) {
+                    throw new UsageError('Usage: wattbox outlet <on|off|toggle|reset> <outlet>');
+                }
+
+                const outlet = outletArg === '0' ? 0 : await resolveOutlet(client, outletArg);
+                await client.setOutletAction(outlet, action);
+                output({ outlet, action: WattBoxOutletAction[action] }, `Outlet ${outlet}: ${WattBoxOutletAction[action]}`);
+                break;
+            }
+            case 'names': {
+                const names = await client.getOutletNames();
+                output(names, names.map((x, i) => `${(i + 1).toString().padStart(2)}  ${x}`).join('\n'));
+                break;
+            }
+            case 'rename': {
+                const [outletArg, ...nameArgs] = args;
+                if (!outletArg || nameArgs.length === 0) {
+                    throw new UsageError('Usage: wattbox rename <outlet> <name>');
+                }
+
+                const outlet = await resolveOutlet(client, outletArg);
+                const name = nameArgs.join(' ');
+                await client.setOutletName(outlet, name);
+                output({ outlet, name }, `Outlet ${outlet}: ${name}`);
+                break;
+            }
+            case 'mode': {
+                const [outletArg, modeArg] = args;
+                const mode = WattBoxOutletMode[(modeArg ?? '').toUpperCase().replace('-', '_') as keyof typeof WattBoxOutletMode];
+                if (!outletArg || mode === undefined) {
+                    throw new UsageError('Usage: wattbox mode <outlet> <enabled|disabled|reset-only>');
+                }
+
+                const outlet = await resolveOutlet(client, outletArg);
+                await client.setOutletMode(outlet, mode);
+                output({ outlet, mode: WattBoxOutletMode[mode] }, `Outlet ${outlet}: ${WattBoxOutletMode[mode]}`);
+                break;
+            }
+            case 'delay': {
+                const [outletArg, delayArg] = args;
+                const delay = parseInt(delayArg ?? '');
+                if (!outletArg || !(delay >= 1 && delay <= 600)) {
+                    throw new UsageError('Usage: wattbox delay <outlet> <seconds>, 1 to 600 seconds');
+                }
+
+                const outlet = await resolveOutlet(client, outletArg);
+                await client.setOutletPowerOnDelay(outlet, delay);
+                output({ outlet, delay }, `Outlet ${outlet}: ${delay}s power on delay`);
+                break;
+            }
+            case 'power': {
+                const [outletArg] = args;
+                if (outletArg) {
+                    const metrics = await client.getOutletPowerMetrics(await resolveOutlet(client, outletArg));
+                    output(metrics, `Outlet ${metrics.outlet}: ${metrics.watts} W, ${metrics.amps} A, ${metrics.volts} V`);
+                }
+                else {
+                    const metrics = await client.getPowerMetrics();
+                    output(metrics, `${metrics.watts} W, ${metrics.amps} A, ${metrics.volts} V, ${metrics.safeVoltageStatus ? 'Safe' : 'Unsafe'} Voltage`);
+                }
+                break;
+            }
+            case 'ups': {
+                const metrics = await client.getUPSMetrics();
+                output(metrics, [
+                    `Battery Charge:  ${metrics.batteryCharge}%`,
+                    `Battery Load:    ${metrics.batteryLoad}%`,
+                    `Battery Health:  ${metrics.batteryHealthy ? 'Good' : 'Bad'}`,
+                    `Battery Runtime: ${metrics.batteryRuntime} min`,
+                    `Power Lost:      ${metrics.powerLost ? 'Yes' : 'No'}`,
+                    `Alarm:           ${metrics.alarmEnabled ? 'Enabled' : 'Disabled'}${metrics.alarmMuted ? ' (Muted)' : ''}`
+                ].join('\n'));
+                break;
+            }
+            case 'watch': {
+                const device = new WattBoxDevice(client);
+                await device.sync();
+                device.on('outletChanged', (change) => {
+                    const timestamp = new Date().toISOString();
+                    console.log(values.json
+                        ? JSON.stringify({ timestamp, ...change })
+                        : `${timestamp}  ${change.outlet.toString().padStart(2)}  ${change.current ? 'ON ' : 'OFF'}  ${change.name}`);
+                });
+
+                await new Promise<void>((resolve, reject) => {
+                    process.once('SIGINT', () => resolve());
+                    client.once('disconnected', () => reject(new WattBoxNotConnectedError('Connection Closed')));
+                });
+                device.dispose();
+                break;
+            }
+            case 'reboot':
+                await client.reboot();
+                output({ rebooting: true }, 'Rebooting...');
+                return ExitCode.SUCCESS;
+            default:
+                throw new UsageError(`Unknown command: ${command}`);
+        }
+    }
+    finally {
+        await client.disconnect();
+    }
+
+    return ExitCode.SUCCESS;
+}
+
+/**
+ * Resolve an outlet number or name to an outlet number.
+ * @param client - The connected client
+ * @param outlet - The outlet number (1-indexed) or name
+ * @returns The outlet number
+ */
+async function resolveOutlet(client: WattBoxClient, outlet: string): Promise<number> {
+    if (/^\d+$/.test(outlet)) {
+        return parseInt(outlet);
+    }
+
+    const names = await client.getOutletNames();
+    const index = names.findIndex(x => x.toLowerCase() === outlet.toLowerCase());
+    if (index < 0) {
+        throw new UsageError(`Unknown outlet: ${outlet}`);
+    }
+
+    return index + 1;
+}
+
+/**
+ * Read the JSON config file, if it exists.
+ * @param path - The path of the config file
+ * @returns The config values
+ * @throws UsageError If the config file is not a JSON object.
+ */
+function readConfig(path: string): Partial<Record<'host' | 'username' | 'password' | 'port' | 'transport', string | number>> {
+    if (!existsSync(path)) {
+        return {};
+    }
+
+    let config: unknown;
+    try {
+        config = JSON.parse(readFileSync(path, 'utf8'));
+    }
+    catch {
+        throw new UsageError(`Invalid config file: ${path}`);
+    }
+
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        throw new UsageError(`Invalid config file: ${path}`);
+    }
+
+    return config;
+}
+
+/**
+ * Map an error to an exit code.
+ * @param err - The error
+ * @returns The exit code
+ */
+function toExitCode(err: unknown): ExitCode {
+    if (err instanceof UsageError || (err instanceof TypeError && 'code' in err && typeof err.code === 'string' && err.code.startsWith('ERR_PARSE_ARGS'))) {
+        return ExitCode.USAGE;
+    }
+
+    if (err instanceof WattBoxError) {
+        switch (err.code) {
+            case 'AUTH':
+                return ExitCode.AUTH;
+            case 'DEVICE':
+            case 'PARSE':
+            case 'UNSUPPORTED':
+                return ExitCode.DEVICE;
+            case 'INVALID_ARGUMENT':
+            case 'PROTECTED':
+                return ExitCode.USAGE;
+        }
+    }
+
+    return ExitCode.CONNECTION;
+}
+
+main()
+    .then((code) => {
+        process.exitCode = code;
+    })
+    .catch((err) => {
+        console.error(`Error: ${err instanceof Error ? err.message : err}`);
+        process.exitCode = toExitCode(err);
+    });
@@ -1,112 +1,287 @@
+import { createSocket } from 'dgram';
 import { EventEmitter } from 'events';
-import { Socket } from 'net';
-import { WattBoxOutletAction } from './schemas.js';
-import type { WattBoxOutletMode, WattBoxOutletPowerMetrics, WattBoxPowerMetrics, WattBoxUPSMetrics } from './schemas.js';
+import { createReadStream, createWriteStream } from 'fs';
+import { stat } from 'fs/promises';
+import { createServer } from 'http';
+import { isIPv4 } from 'net';
+import { basename } from 'path';
+import { decodeWattBoxCommand, decodeWattBoxResponse, parseWattBoxFlag, parseWattBoxInteger, parseWattBoxOutletNames, parseWattBoxOutletPowerStatus, parseWattBoxOutletStatus, parseWattBoxPowerStatus, parseWattBoxUPSStatus, WattBoxLineFramer } from './codec.js';
+import { WattBoxFirmwareUpdateStage, WattBoxNetworkMode, WattBoxOutletAction, WattBoxScheduleFrequency } from './schemas.js';
+import { WATTBOX_TRANSCRIPT_REDACTED, WattBoxSshTransport, WattBoxTelnetTransport } from './transport.js';
+import type { WattBoxAutoRebootHost, WattBoxAutoRebootTimeouts, WattBoxCapabilities, WattBoxNetworkSettings, WattBoxOutletMode, WattBoxOutletPowerMetrics, WattBoxOutletRebootOperation, WattBoxPowerMetrics, WattBoxSchedule, WattBoxUPSMetrics } from './schemas.js';
+import type { WattBoxResponseMessage, WattBoxStatusMessage, WattBoxValueMessage } from './codec.js';
+import type { WriteStream } from 'fs';
+import type { WattBoxTranscriptEntry, WattBoxTransport, WattBoxTransportFactory, WattBoxTransportType } from './transport.js';
 
 export class WattBoxClient extends EventEmitter<WattBoxEvents> {
     #opts: WattBoxClientOpts;
 
+    #accountChange = false;
     #bcc: EventEmitter = new EventEmitter();
+    #capabilities: WattBoxCapabilities | null = null;
+    #commandQueue: WattBoxCommand[] = [];
+    #commandsInFlight: WattBoxCommand[] = [];
     #connected = false;
+    #framer = new WattBoxLineFramer();
+    #heartbeatTimer: NodeJS.Timeout | null = null;
+    #loggedIn = false;
     #reconnectAttempts = 0;
     #reconnectTimer: NodeJS.Timeout | null = null;
-    #socket: Socket | null = null;
+    #socket: WattBoxTransport | null = null;
+    #state: WattBoxConnectionState = 'closed';
+    #transcript: WriteStream | null = null;
 
     constructor(opts: WattBoxClientOpts) {
         super();
         this.#opts = opts;
     }
 
+    /**
+     * The capabilities of the WattBox, detected from the model and firmware after logging in.
+     * @remarks
+     * Null until detected, or if detection failed, in which case calls are sent unchecked.
+     * @returns The WattBox capabilities
+     */
+    public get capabilities(): WattBoxCapabilities | null {
+        return this.#capabilities;
+    }
+
+    /**
+     * Whether the client is connected and logged in to the WattBox.
+     * @returns True if connected and logged in
+     */
+    public get connected(): boolean {
+        return this.#loggedIn;
+    }
+
+    /**
+     * The host the client connects to, which changes when following a network change.
+     * @returns The WattBox host
+     */
+    public get host(): string {
+        return this.#opts.host;
+    }
+
+    /**
+     * The state of the connection to the WattBox, changes are emitted as `stateChange` events.
+     * @returns The connection state
+     */
+    public get state(): WattBoxConnectionState {
+        return this.#state;
+    }
+
     /**
      * Establish a connection to the WattBox.
      * @remarks
-     * Will attempt to connect to the WattBox using the provided host, username, and password.
+     * Will attempt to connect to the WattBox using the provided host, username, and password,
+     * over telnet (port 23) or SSH (port 22) depending on the configured transport.
      * Will attempt to automatically reconnect if the connection is lost.
      * @throws {@link WattBoxError} If the connection fails or if the login is invalid.
      */
     public connect(): Promise<void> {
+        // Re-enable reconnects after a disconnect
+        if (this.#reconnectAttempts < 0) {
+            this.#reconnectAttempts = 0;
+        }
+
         return new Promise((resolve, reject) => {
-            this.#socket = new Socket();
-            this.#socket.setEncoding('utf8');
-            this.#socket.setKeepAlive(true, this.#opts.timeout ?? 5000);
-            this.#socket.setTimeout(this.#opts.timeout ?? 5000);
+            const transport = this.#opts.transport ?? 'telnet';
+            const transportOpts = {
+                host: this.#opts.host,
+                port: this.#opts.port ?? (transport === 'ssh' ? 22 : 23),
+                username: this.#opts.username,
+                password: this.#opts.password,
+                timeout: this.#opts.timeout ?? 5000
+            };
+
+            const socket = typeof transport === 'function'
+                ? transport(transportOpts)
+                : transport === 'ssh' ? new WattBoxSshTransport(transportOpts) : new WattBoxTelnetTransport(transportOpts);
+            this.#socket = socket;
+
+            if (this.#opts.record && !this.#transcript) {
+                this.#transcript = createWriteStream(this.#opts.record, { flags: 'a' });
+                this.#transcript.on('error', err => this.emit('debugsock', 'record', err.message));
+            }
+
+            this.#framer.reset();
+            this.#setState('connecting');
+
+            // Whether this socket connected, so only an established connection emits `disconnected`
+            let opened = false;
+
+            // A socket replaced by disconnecting or reconnecting is stale, its events no longer affect the client
+            const isStale = () => this.#socket !== socket;
+
+            socket.on('connect', () => {
+                if (isStale()) {
+                    return;
+                }
 
-            this.#socket.on('connect', () => {
                 this.emit('debugsock', 'connect');
+                this.#record({ type: 'open' });
+                opened = true;
                 this.#connected = true;
-                this.#reconnectAttempts = 0;
+                this.#setState('authenticating');
             });
 
             this.#bcc.removeAllListeners('login');
             this.#bcc.once('login', (success: boolean) => {
                 if (success) {
-                    this.emit('ready');
-                    resolve();
+                    this.#loggedIn = true;
+
+                    // Only a login counts as reconnected, a WattBox at its session limit accepts and then drops connections
+                    this.#reconnectAttempts = 0;
+
+                    void this.#detectCapabilities().then(() => {
+                        // The connection closed while detecting
+                        if (isStale() || !this.#loggedIn) {
+                            return;
+                        }
+
+                        this.#setState('ready');
+                        this.#startHeartbeat(socket);
+                        this.emit('ready');
+                        resolve();
+                    });
                 }
                 else {
                     this.#reconnectAttempts = -1;
-                    this.disconnect();
-                    reject(new WattBoxError('Invalid Login'));
+                    void this.disconnect();
+                    reject(new WattBoxAuthError('Invalid Login'));
+                }
+            });
+
+            // SSH authenticates the session itself, without the login prompts
+            socket.on('login', (success: boolean) => {
+                if (isStale()) {
+                    return;
                 }
+
+                this.#record({ type: 'login', success });
+                this.#bcc.emit('login', success);
             });
 
-            this.#socket.on('data', (data: string) => {
+            socket.on('data', (data: string) => {
+                if (isStale()) {
+                    return;
+                }
+
                 this.emit('debugsock', 'data', data);
                 this.#handleData(data);
             });
 
-            this.#socket.on('timeout', () => {
-                if (!this.#connected) {
+            socket.on('timeout', () => {
+                if (!isStale() && !this.#connected) {
                     this.emit('debugsock', 'timeout');
-                    this.#socket?.destroy();
+                    socket.destroy();
                 }
             });
 
-            this.#socket.on('close', () => {
+            socket.on('close', () => {
+                // No-op once logged in
+                reject(new WattBoxNotConnectedError('Connection Closed'));
+
+                if (isStale()) {
+                    return;
+                }
+
                 this.emit('debugsock', 'close');
+                this.#record({ type: 'close' });
+                this.#bcc.emit('close');
                 this.#connected = false;
-                if (this.#reconnectAttempts >= 0) {
-                    const maxReconnectAttempts = this.#opts.maxReconnectAttempts ?? Infinity;
-                    if (this.#reconnectAttempts >= maxReconnectAttempts) {
-                        return;
-                    }
+                this.#loggedIn = false;
+                this.#stopHeartbeat();
+                this.#rejectCommands(new WattBoxNotConnectedError('Connection Closed'));
 
-                    this.#reconnectAttempts++;
-                    const reconnectBackoff = Math.min(32, Math.pow(2, this.#reconnectAttempts)) * 1000; // 2, 4, 8, 16, 32, 32, ...
-                    this.emit('debugsock', 'reconnect', `#${this.#reconnectAttempts}/${maxReconnectAttempts} in ${reconnectBackoff / 1000}s`);
+                if (opened) {
+                    this.emit('disconnected');
+                }
+
+                if (this.#reconnectAttempts < 0) {
+                    this.#setState('closed');
+                    this.#endTranscript();
+                    return;
+                }
 
-                    this.#reconnectTimer = setTimeout(() => {
-                        this.connect().catch();
-                    }, reconnectBackoff);
+                const reconnectBackoff = this.#reconnectDelay(this.#reconnectAttempts + 1);
+                if (reconnectBackoff === null) {
+                    this.#setState('closed');
+                    this.#endTranscript();
+                    this.emit('reconnectFailed', this.#reconnectAttempts);
+                    return;
                 }
+
+                this.#reconnectAttempts++;
+                this.emit('debugsock', 'reconnect', `#${this.#reconnectAttempts} in ${reconnectBackoff / 1000}s`);
+
+                this.#setState('reconnecting');
+                this.emit('reconnecting', this.#reconnectAttempts, reconnectBackoff);
+
+                this.#reconnectTimer = setTimeout(() => {
+                    this.connect().catch(() => undefined);
+                }, reconnectBackoff);
             });
 
-            this.#socket.on('error', (err) => {
+            socket.on('error', (err: Error) => {
+                if (isStale()) {
+                    reject(err);
+                    return;
+                }
+
                 this.emit('debugsock', 'error', err.message);
                 if (!this.#connected) {
                     reject(err);
                 }
             });
 
-            this.#socket.connect(23, this.#opts.host);
+            socket.connect();
         });
     }
 
     /**
      * Disconnect from the WattBox.
+     * @remarks
+     * Protocol Command: !Exit
+     *
+     * Closes the session gracefully and waits for the WattBox to close the connection.
+     * Pending commands are rejected.
      */
-    public disconnect(): void {
+    public async disconnect(): Promise<void> {
+        this.#reconnectAttempts = -1;
+
         if (this.#reconnectTimer) {
             clearTimeout(this.#reconnectTimer);
             this.#reconnectTimer = null;
         }
 
-        if (this.#socket) {
-            this.#socket.end();
-            this.#socket = null;
+        const loggedIn = this.#loggedIn;
+        const socket = this.#detach();
+        this.#setState('closed');
+
+        if (!socket) {
+            this.#endTranscript();
+            return;
         }
 
-        this.#connected = false;
+        if (!loggedIn) {
+            socket.end();
+            return;
+        }
+
+        await new Promise<void>((resolve) => {
+            const onTimeout = setTimeout(() => {
+                socket.destroy();
+            }, this.#opts.timeout ?? 5000);
+
+            socket.once('close', () => {
+                clearTimeout(onTimeout);
+                resolve();
+            });
+
+            this.emit('debugmsg', '[--->] !Exit');
+            this.#write(socket, '!Exit');
+        });
     }
 
     /**
@@ -117,9 +292,12 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * @throws {@link WattBoxError}
      */
     public async getAutoReboot(): Promise<boolean> {
-        const response = await this.#handleRequestMessage('?AutoReboot');
-        const match = /\?AutoReboot=([01])/.exec(response);
-        return match && match[1] ? Boolean(parseInt(match[1])) : false;
+        const value = parseWattBoxFlag(await this.#handleRequestMessage('?AutoReboot'));
+        if (value === null) {
+            throw new WattBoxParseError('Invalid Response', '?AutoReboot');
+        }
+
+        return value;
     }
 
     /**
@@ -130,9 +308,7 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * @throws {@link WattBoxError}
      */
     public async getFirmware(): Promise<string> {
-        const response = await this.#handleRequestMessage('?Firmware');
-        const match = /\?Firmware=(.*)/.exec(response);
-        return match && match[1] ? match[1] : '';
+        return this.#handleRequestMessage('?Firmware');
     }
 
     /**
@@ -143,9 +319,7 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * @throws {@link WattBoxError}
      */
     public async getHostname(): Promise<string> {
-        const response = await this.#handleRequestMessage('?Hostname');
-        const match = /\?Hostname=(.*)/.exec(response);
-        return match && match[1] ? match[1] : '';
+        return this.#handleRequestMessage('?Hostname');
     }
 
     /**
@@ -156,9 +330,7 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * @throws {@link WattBoxError}
      */
     public async getModel(): Promise<string> {
-        const response = await this.#handleRequestMessage('?Model');
-        const match = /\?Model=(.*)/.exec(response);
-        return match && match[1] ? match[1] : '';
+        return this.#handleRequestMessage('?Model');
     }
 
     /**
@@ -169,9 +341,12 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * @throws {@link WattBoxError}
      */
     public async getOutletCount(): Promise<number> {
-        const response = await this.#handleRequestMessage('?OutletCount');
-        const match = /\?OutletCount=(\d+)/.exec(response);
-        return match && match[1] ? parseInt(match[1]) : 0;
+        const value = parseWattBoxInteger(await this.#handleRequestMessage('?OutletCount'));
+        if (value === null) {
+            throw new WattBoxParseError('Invalid Response', '?OutletCount');
+        }
+
+        return value;
     }
 
     /**
@@ -182,9 +357,7 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * @throws {@link WattBoxError}
      */
     public async getOutletNames(): Promise<string[]> {
-        const response = await this.#handleRequestMessage('?OutletName');
-        const match = /\?OutletName=(.*)/.exec(response);
-        return match && match[1] ? match[1].split(',').map(x => x.slice(1, -1)) : [];
+        return parseWattBoxOutletNames(await this.#handleRequestMessage('?OutletName'));
     }
 
     /**
@@ -194,23 +367,20 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * Protocol Command: ?OutletPowerStatus
      *
      * Not supported on WB150/250
-     * @returns The outlet power metrics, or null if unavailable
-     * @throws {@link WattBoxError}
+     * @returns The outlet power metrics
+     * @throws {@link WattBoxUnsupportedError} If the WattBox does not support power metrics.
+     * @throws {@link WattBoxError} If the outlet is out of range.
      */
-    public async getOutletPowerMetrics(outlet: number): Promise<WattBoxOutletPowerMetrics | null> {
-        const response = await this.#handleRequestMessage(`?OutletPowerStatus=${outlet}`);
-        const match = /\?OutletPowerStatus=(\d+),(\d+(?:\.\d+)?),(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)/.exec(response);
+    public async getOutletPowerMetrics(outlet: number): Promise<WattBoxOutletPowerMetrics> {
+        this.#requireCapability('powerMetrics', 'Power Metrics Not Supported');
+        this.#checkOutlet(outlet);
 
-        if (!match || match.length < 5 || !match[1] || !match[2] || !match[3] || !match[4]) {
-            return null;
+        const value = parseWattBoxOutletPowerStatus(await this.#handleRequestMessage(`?OutletPowerStatus=${outlet}`));
+        if (value === null) {
+            throw new WattBoxParseError('Invalid Response', `?OutletPowerStatus=${outlet}`);
         }
 
-        return {
-            outlet: parseInt(match[1]),
-            watts: parseFloat(match[2]),
-            amps: parseFloat(match[3]),
-            volts: parseFloat(match[4])
-        };
+        return value;
     }
 
     /**
@@ -222,9 +392,12 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * @throws {@link WattBoxError}
      */
     public async getOutletStatus(): Promise<boolean[]> {
-        const response = await this.#handleRequestMessage('?OutletStatus');
-        const match = /\?OutletStatus=((?:[01],)*[01])/.exec(response);
-        return match && match[1] ? match[1].split(',').map(x => Boolean(parseInt(x))) : [];
+        const value = parseWattBoxOutletStatus(await this.#handleRequestMessage('?OutletStatus'));
+        if (value === null) {
+            throw new WattBoxParseError('Invalid Response', '?OutletStatus');
+        }
+
+        return value;
     }
 
     /**
@@ -233,23 +406,19 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * Protocol Command: ?PowerStatus
      *
      * NOTE: Not supported on WB150/250
-     * @returns The power metrics, or null if unavailable
+     * @returns The power metrics
+     * @throws {@link WattBoxUnsupportedError} If the WattBox does not support power metrics.
      * @throws {@link WattBoxError}
      */
-    public async getPowerMetrics(): Promise<WattBoxPowerMetrics | null> {
-        const response = await this.#handleRequestMessage('?PowerStatus');
-        const match = /\?PowerStatus=(\d+(?:\.\d+)?),(\d+(?:\.\d+)?),(\d+(?:\.\d+)?),(0|1)/.exec(response);
+    public async getPowerMetrics(): Promise<WattBoxPowerMetrics> {
+        this.#requireCapability('powerMetrics', 'Power Metrics Not Supported');
 
-        if (!match || match.length < 5 || !match[1] || !match[2] || !match[3] || !match[4]) {
-            return null;
+        const value = parseWattBoxPowerStatus(await this.#handleRequestMessage('?PowerStatus'));
+        if (value === null) {
+            throw new WattBoxParseError('Invalid Response', '?PowerStatus');
         }
 
-        return {
-            amps: parseFloat(match[1]),
-            watts: parseFloat(match[2]),
-            volts: parseFloat(match[3]),
-            safeVoltageStatus: Boolean(parseInt(match[4]))
-        };
+        return value;
     }
 
     /**
@@ -260,9 +429,7 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * @throws {@link WattBoxError}
      */
     public async getServiceTag(): Promise<string> {
-        const response = await this.#handleRequestMessage('?ServiceTag');
-        const match = /\?ServiceTag=(.*)/.exec(response);
-        return match && match[1] ? match[1] : '';
+        return this.#handleRequestMessage('?ServiceTag');
     }
 
     /**
@@ -273,95 +440,255 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * @throws {@link WattBoxError}
      */
     public async getUPSConnected(): Promise<boolean> {
-        const response = await this.#handleRequestMessage('?UPSConnection');
-        const match = /\?UPSConnection=([01])/.exec(response);
-        return match && match[1] ? Boolean(parseInt(match[1])) : false;
+        const value = parseWattBoxFlag(await this.#handleRequestMessage('?UPSConnection'));
+        if (value === null) {
+            throw new WattBoxParseError('Invalid Response', '?UPSConnection');
+        }
+
+        return value;
     }
 
     /**
      * Get the UPS metrics if a UPS is attached to the WattBox.
      * @remarks
      * Protocol Command: ?UPSStatus
-     * @returns The UPS metrics, or null if unavailable
+     * @returns The UPS metrics
      * @throws {@link WattBoxError}
      */
-    public async getUPSMetrics(): Promise<WattBoxUPSMetrics | null> {
-        const response = await this.#handleRequestMessage('?UPSStatus');
-        const match = /\?UPSStatus=(\d+),(\d+),(Good|Bad),(True|False),(\d+),(True|False),(True|False)/.exec(response);
-
-        if (!match || match.length < 8 || !match[1] || !match[2] || !match[3] || !match[4] || !match[5] || !match[6] || !match[7]) {
-            return null;
+    public async getUPSMetrics(): Promise<WattBoxUPSMetrics> {
+        const value = parseWattBoxUPSStatus(await this.#handleRequestMessage('?UPSStatus'));
+        if (value === null) {
+            throw new WattBoxParseError('Invalid Response', '?UPSStatus');
         }
 
-        return {
-            batteryCharge: parseInt(match[1]),
-            batteryLoad: parseInt(match[2]),
-            batteryHealthy: match[3] === 'Good',
-            powerLost: match[4] === 'True',
-            batteryRuntime: parseInt(match[5]),
-            alarmEnabled: match[6] === 'True',
-            alarmMuted: match[7] === 'True'
-        };
+        return value;
     }
 
     async #handleRequestMessage(message: string): Promise<string> {
-        if (!this.#connected) {
-            throw new WattBoxError('Not Connected');
-        }
+        const request = decodeWattBoxCommand(message);
+        return this.#enqueueCommand(message, request.type === 'request' ? request.command : message);
+    }
 
-        if (this.#socket) {
-            this.emit('debugmsg', `[--->] ${message}`);
-            this.#socket.write(`${message}\n`);
+    /**
+     * Add a host to the list of hosts monitored for auto-reboot on the WattBox.
+     * @param host - The host name, website or IP address to test, and outlets tied to the host
+     * @param opts - Control options
+     * @remarks
+     * Protocol Command: !HostAdd={name},{address},{outlets}
+     * @throws {@link WattBoxProtectedError} If any of the outlets is protected and the override token does not match.
+     * @throws {@link WattBoxError} If the host is invalid or rejected by the WattBox.
+     */
+    public async addAutoRebootHost(host: WattBoxAutoRebootHost, opts: WattBoxControlOpts = {}): Promise<void> {
+        if (!host.name || /[,{}\r\n]/.test(host.name)) {
+            throw new WattBoxArgumentError('Invalid Host Name');
         }
 
-        const messageParts = message.split('=');
-        const messagePrefix = messageParts[0] ? messageParts[0] : message;
-
-        return new Promise<string>((resolve, reject) => {
-            const onTimeout = setTimeout(() => {
-                this.#socket?.destroy();
-                reject(new WattBoxError('Timeout'));
-            }, this.#opts.timeout ?? 5000);
+        if (!host.address || /[\s,{}]/.test(host.address)) {
+            throw new WattBoxArgumentError('Invalid Host Address');
+        }
 
-            const onRequest = (data: string) => {
-                this.#bcc.removeListener('error', onError);
-                clearTimeout(onTimeout);
-                resolve(data);
-            };
+        if (host.outlets.length === 0 || host.outlets.some(x => !this.#isOutlet(x))) {
+            throw new WattBoxArgumentError('Invalid Host Outlets');
+        }
 
-            const onError = () => {
-                this.#bcc.removeListener(messagePrefix, onRequest);
-                clearTimeout(onTimeout);
-                reject(new WattBoxError('Request Error'));
-            };
+        const message = `!HostAdd=${host.name},${host.address},{${host.outlets.join(',')}}`;
+        host.outlets.forEach(x => this.#checkProtected(x, message, opts));
+        await this.#handleControlMessage(message, opts);
+    }
 
-            Promise.race([
-                this.#bcc.once(messagePrefix, onRequest),
-                this.#bcc.once('error', onError)
-            ]);
-        });
+    /**
+     * Add a schedule to the scheduled events on the WattBox.
+     * @param schedule - A one-time schedule with a date, or a recurring schedule with days of the week
+     * @param opts - Control options
+     * @remarks
+     * Protocol Command: !ScheduleAdd={name},{outlets},{action},{frequency},{days|date},{time}
+     * @throws {@link WattBoxProtectedError} If any of the outlets is protected and the override token does not match.
+     * @throws {@link WattBoxError} If the schedule is invalid or rejected by the WattBox.
+     */
+    public async addSchedule(schedule: WattBoxSchedule, opts: WattBoxControlOpts = {}): Promise<void> {
+        const message = `!ScheduleAdd=${this.#formatSchedule(schedule)}`;
+        schedule.outlets.forEach(x => this.#checkProtected(x, message, opts));
+        await this.#handleControlMessage(message, opts);
     }
 
     /**
      * Reboot the WattBox device immediately. The client will lose the
      * connection to the device until it is back online.
+     * @param opts - Control options
      * @remarks
      * Protocol Command: !Reboot
      * @throws {@link WattBoxError}
      */
-    public async reboot(): Promise<void> {
-        await this.#handleControlMessage(`!Reboot`);
+    public async reboot(opts: WattBoxControlOpts = {}): Promise<void> {
+        await this.#handleControlMessage(`!Reboot`, opts);
+    }
+
+    /**
+     * Change the login credentials on the WattBox, then log back in with the new credentials.
+     * @param username - The new username
+     * @param password - The new password, 13 characters or fewer for SSH compatibility
+     * @param opts - Account set options
+     * @remarks
+     * Protocol Command: !AccountSet={username},{password}
+     *
+     * The WattBox closes the connection once the credentials are changed. The client
+     * stores the new credentials, closes the session and connects again, regardless of
+     * the reconnect policy, then emits `credentialsChanged` once logged in.
+     * @throws {@link WattBoxCredentialsError} If the WattBox rejects the login with the new credentials.
+     * @throws {@link WattBoxError} If the credentials are invalid, rejected by the WattBox, or the client is not logged in again in time.
+     */
+    public async setAccount(username: string, password: string, opts: WattBoxAccountSetOpts = {}): Promise<void> {
+        if (!username || /[,\s]/.test(username)) {
+            throw new WattBoxArgumentError('Invalid Username');
+        }
+
+        if (!password || password.length > 13 || /[,\s]/.test(password)) {
+            throw new WattBoxArgumentError('Invalid Password');
+        }
+
+        if (this.#accountChange) {
+            throw new WattBoxError('Account Change In Progress');
+        }
+
+        this.#accountChange = true;
+        let onTimeout: NodeJS.Timeout | undefined;
+
+        try {
+            await this.#handleControlMessage(`!AccountSet=${username},${password}`, opts);
+            if (this.#opts.dryRun) {
+                return;
+            }
+
+            this.#opts = { ...this.#opts, username, password };
+
+            // Log back in with the new credentials, the WattBox drops the session regardless
+            this.#detach()?.end();
+
+            await Promise.race([
+                this.connect(),
+                new Promise<never>((_, reject) => {
+                    onTimeout = setTimeout(() => {
+                        reject(new WattBoxTimeoutError('Timeout'));
+                    }, opts.timeout ?? 60000);
+                })
+            ]);
+        }
+        catch (err) {
+            throw err instanceof WattBoxAuthError ? new WattBoxCredentialsError('Invalid Login After Account Change') : err;
+        }
+        finally {
+            clearTimeout(onTimeout);
+            this.#accountChange = false;
+        }
+
+        this.emit('credentialsChanged', username);
     }
 
     /**
      * Set auto reboot configuration on the WattBox.
      * @param autoReboot - Enable or disable auto reboot
+     * @param opts - Control options
      * @remarks
      * Protocol Command: !AutoReboot={autoReboot}
      * @throws {@link WattBoxError}
      */
-    public async setAutoReboot(autoReboot: boolean): Promise<void> {
-        await this.#handleControlMessage(`!AutoReboot=${autoReboot ? 1 : 0}`);
+    public async setAutoReboot(autoReboot: boolean, opts: WattBoxControlOpts = {}): Promise<void> {
+        await this.#handleControlMessage(`!AutoReboot=${autoReboot ? 1 : 0}`, opts);
+    }
+
+    /**
+     * Set the auto reboot timeout settings on the WattBox.
+     * @param timeouts - The host timeout, timeout count, ping delay, and reboot attempts
+     * @param opts - Control options
+     * @remarks
+     * Protocol Command: !AutoRebootTimeoutSet={timeout},{count},{pingDelay},{rebootAttempts}
+     * @throws {@link WattBoxError} If a setting is out of range or rejected by the WattBox.
+     */
+    public async setAutoRebootTimeouts(timeouts: WattBoxAutoRebootTimeouts, opts: WattBoxControlOpts = {}): Promise<void> {
+        const inRange = (value: number, min: number, max: number) => Number.isInteger(value) && value >= min && value <= max;
+
+        if (!inRange(timeouts.timeout, 1, 60)) {
+            throw new WattBoxArgumentError('Invalid Timeout');
+        }
+
+        if (!inRange(timeouts.count, 1, 10)) {
+            throw new WattBoxArgumentError('Invalid Count');
+        }
+
+        if (!inRange(timeouts.pingDelay, 1, 30)) {
+            throw new WattBoxArgumentError('Invalid Ping Delay');
+        }
+
+        if (!inRange(timeouts.rebootAttempts, 0, 10)) {
+            throw new WattBoxArgumentError('Invalid Reboot Attempts');
+        }
+
+        await this.#handleControlMessage(`!AutoRebootTimeoutSet=${timeouts.timeout},${timeouts.count},${timeouts.pingDelay},${timeouts.rebootAttempts}`, opts);
+    }
+
+    /**
+     * Set the network settings on the WattBox, using DHCP or a static IP address.
+     * The WattBox reboots to apply the settings and may come back at a different IP address.
+     * @param settings - DHCP settings with a hostname, or static settings with an IP address, subnet, gateway, and DNS servers
+     * @param opts - Network set options
+     * @remarks
+     * Protocol Command: !NetworkSet={hostname},{ip},{subnet},{gateway},{dns1},{dns2}
+     *
+     * The client disconnects once the settings are applied, unless following a static
+     * IP address, in which case it reconnects to the new IP address.
+     * @throws {@link WattBoxError} If the settings are invalid, rejected by the WattBox, or the WattBox is not reachable at the new IP address in time.
+     */
+    public async setNetwork(settings: WattBoxNetworkSettings, opts: WattBoxNetworkSetOpts = {}): Promise<void> {
+        if (!/^(?!-)[a-zA-Z0-9-]{1,63}(?<!-)$/.test(settings.hostname)) {
+            throw new WattBoxArgumentError('Invalid Hostname');
+        }
+
+        let message = `!NetworkSet=${settings.hostname}`;
+
+        if (settings.mode === WattBoxNetworkMode.STATIC) {
+            const addresses = [settings.ip, settings.gateway, settings.dns1, ...(settings.dns2 ? [settings.dns2] : [])];
+            if (addresses.some(x => !isIPv4(x))) {
+                throw new WattBoxArgumentError('Invalid IP Address');
+            }
+
+            // A subnet mask is contiguous ones followed by zeros
+            const subnet = isIPv4(settings.subnet) ? settings.subnet.split('.').map(x => parseInt(x).toString(2).padStart(8, '0')).join('') : '';
+            if (!/^1+0*$/.test(subnet)) {
+                throw new WattBoxArgumentError('Invalid Subnet');
+            }
+
+            message += `,${settings.ip},${settings.subnet},${settings.gateway},${settings.dns1}`;
+            if (settings.dns2) {
+                message += `,${settings.dns2}`;
+            }
+        }
+
+        await this.#handleControlMessage(message, opts);
+        if (this.#opts.dryRun) {
+            return;
+        }
+
+        if (!opts.follow || settings.mode !== WattBoxNetworkMode.STATIC) {
+            await this.disconnect();
+            return;
+        }
+
+        // Reconnect to the new IP address once the WattBox reboots
+        this.#opts = { ...this.#opts, host: settings.ip };
+
+        await new Promise<void>((resolve, reject) => {
+            const onTimeout = setTimeout(() => {
+                this.removeListener('ready', onReady);
+                reject(new WattBoxTimeoutError('Timeout'));
+            }, opts.timeout ?? 300000);
+
+            const onReady = () => {
+                clearTimeout(onTimeout);
+                resolve();
+            };
+
+            this.once('ready', onReady);
+        });
     }
 
     /**
@@ -370,167 +697,920 @@ export class WattBoxClient extends EventEmitter<WattBoxEvents> {
      * To reset all outlets, set outlet to 0 and action to WattBoxOutletAction.RESET.
      * @param outlet - The outlet number (1-indexed) or 0 for all outlets
      * @param action - The action to perform on the outlet (OFF, ON, TOGGLE, RESET)
+     * @param opts - Control options
      * @remarks
      * Protocol Command: !OutletSet={outlet},{action}
-     * @throws {@link WattBoxError}
+     * @throws {@link WattBoxProtectedError} If the outlet is protected and the override token does not match.
+     * @throws {@link WattBoxError} If the outlet is out of range or the action is rejected by the WattBox.
      */
-    public async setOutletAction(outlet: number, action: WattBoxOutletAction): Promise<void> {
-        await this.#handleControlMessage(`!OutletSet=${outlet},${WattBoxOutletAction[action]}`);
+    public async setOutletAction(outlet: number, action: WattBoxOutletAction, opts: WattBoxControlOpts = {}): Promise<void> {
+        if (outlet !== 0) {
+            this.#checkOutlet(outlet);
+        }
+
+        const message = `!OutletSet=${outlet},${WattBoxOutletAction[action]}`;
+        this.#checkProtected(outlet, message, opts);
+        await this.#handleControlMessage(message, opts);
     }
 
     /**
      * Set the operating mode for a specific outlet.
      * @param outlet - The outlet number (1-indexed)
      * @param mode - The mode to configure on the outlet (ENABLED, DISABLED, RESET_ONLY)
+     * @param opts - Control options
      * @remarks
      * Protocol Command: !OutletModeSet={outlet},{mode}
-     * @throws {@link WattBoxError}
+     * @throws {@link WattBoxProtectedError} If the outlet is protected and the override token does not match.
+     * @throws {@link WattBoxError} If the outlet is out of range or the mode is rejected by the WattBox.
      */
-    public async setOutletMode(outlet: number, mode: WattBoxOutletMode): Promise<void> {
-        await this.#handleControlMessage(`!OutletModeSet=${outlet},${mode}`);
+    public async setOutletMode(outlet: number, mode: WattBoxOutletMode, opts: WattBoxControlOpts = {}): Promise<void> {
+        this.#checkOutlet(outlet);
+
+        const message = `!OutletModeSet=${outlet},${mode}`;
+        this.#checkProtected(outlet, message, opts);
+        await this.#handleControlMessage(message, opts);
     }
 
     /**
      * Set the name for a specific outlet.
      * @param outlet - The outlet number (1-indexed)
-     * @param name - The outlet name
+     * @param name - The outlet name, up to 32 printable ASCII characters other than braces
+     * @param opts - Control options
      * @remarks
      * Protocol Command: !OutletNameSet={outlet},{name}
-     * @throws {@link WattBoxError}
+     * @throws {@link WattBoxError} If the outlet is out of range, or the name is invalid or rejected by the WattBox.
+     */
+    public async setOutletName(outlet: number, name: string, opts: WattBoxControlOpts = {}): Promise<void> {
+        this.#checkOutlet(outlet);
+
+        const encodedName = this.#encodeName(name);
+        if (encodedName === null) {
+            throw new WattBoxArgumentError('Invalid Outlet Name');
+        }
+
+        await this.#handleControlMessage(`!OutletNameSet=${outlet},${encodedName}`, opts);
+    }
+
+    /**
+     * Set the names for all outlets.
+     * @param names - The outlet names, starting with outlet 1, up to 32 printable ASCII characters other than braces
+     * @param opts - Control options
+     * @remarks
+     * Protocol Command: !OutletNameSetAll={name},{name},...
+     * @throws {@link WattBoxError} If a name is invalid, the number of names does not match the outlet count, or the names are rejected by the WattBox.
+     */
+    public async setOutletNames(names: string[], opts: WattBoxControlOpts = {}): Promise<void> {
+        const encodedNames = names.map(x => this.#encodeName(x));
+        if (encodedNames.some(x => x === null)) {
+            throw new WattBoxArgumentError('Invalid Outlet Name');
+        }
+
+        if (encodedNames.length !== (this.#capabilities?.outletCount ?? await this.getOutletCount())) {
+            throw new WattBoxArgumentError('Invalid Outlet Name Count');
+        }
+
+        await this.#handleControlMessage(`!OutletNameSetAll=${encodedNames.map(x => `{${x}}`).join(',')}`, opts);
+    }
+
+    /**
+     * Set the auto reboot operation for every outlet, when hosts tied to the outlet time out.
+     * @param operations - The reboot operation for each outlet, starting with outlet 1 (OR, AND)
+     * @param opts - Control options
+     * @remarks
+     * Protocol Command: !OutletRebootSet={operation},{operation},...
+     * @throws {@link WattBoxError} If the number of operations does not match the outlet count, or the operations are rejected by the WattBox.
      */
-    public async setOutletName(outlet: number, name: string): Promise<void> {
-        await this.#handleControlMessage(`!OutletNameSet=${outlet},${name}`);
+    public async setOutletRebootOperations(operations: WattBoxOutletRebootOperation[], opts: WattBoxControlOpts = {}): Promise<void> {
+        if (operations.length !== (this.#capabilities?.outletCount ?? await this.getOutletCount())) {
+            throw new WattBoxArgumentError('Invalid Reboot Operation Count');
+        }
+
+        await this.#handleControlMessage(`!OutletRebootSet=${operations.join(',')}`, opts);
     }
 
     /**
      * Set the power on delay for a specific outlet.
      * @param outlet - The outlet number (1-indexed)
      * @param delay - Power on delay in seconds, accepts values between 1 and 600
+     * @param opts - Control options
      * @remarks
      * Protocol Command: !OutletPowerOnDelaySet={outlet},{delay}
+     * @throws {@link WattBoxError} If the outlet or delay is out of range, or the delay is rejected by the WattBox.
+     */
+    public async setOutletPowerOnDelay(outlet: number, delay: number, opts: WattBoxControlOpts = {}): Promise<void> {
+        this.#checkOutlet(outlet);
+
+        const seconds = Math.trunc(delay);
+        if (Number.isNaN(seconds) || seconds < 1 || seconds > 600) {
+            throw new WattBoxArgumentError('Invalid Power On Delay');
+        }
+
+        await this.#handleControlMessage(`!OutletPowerOnDelaySet=${outlet},${seconds}`, opts);
+    }
+
+    /**
+     * Enable or disable SDDP broadcasting on the WattBox.
+     * @param enabled - Enable or disable SDDP
+     * @param opts - Control options
+     * @remarks
+     * Protocol Command: !SetSDDP={enabled}
+     *
+     * Requires WattBox firmware 2.0 or later.
+     * @throws {@link WattBoxUnsupportedError} If the WattBox firmware is older than 2.0.
      * @throws {@link WattBoxError}
      */
-    public async setOutletPowerOnDelay(outlet: number, delay: number): Promise<void> {
-        await this.#handleControlMessage(`!OutletPowerOnDelaySet=${outlet},${Math.trunc(delay)}`);
+    public async setSDDP(enabled: boolean, opts: WattBoxControlOpts = {}): Promise<void> {
+        this.#requireCapability('serviceCommands', 'Requires Firmware 2.0');
+        await this.#handleControlMessage(`!SetSDDP=${enabled ? 1 : 0}`, opts);
     }
 
-    async #handleControlMessage(message: string): Promise<void> {
-        if (!this.#connected) {
-            throw new WattBoxError('Not Connected');
+    /**
+     * Enable or disable the telnet service on the WattBox.
+     * @param enabled - Enable or disable telnet
+     * @param opts - Control options
+     * @remarks
+     * Protocol Command: !SetTelnet={enabled}
+     *
+     * Requires WattBox firmware 2.0 or later. A reboot is required for the setting to
+     * take effect, `rebootPending` is emitted once set. Disabling telnet prevents
+     * reconnecting over the telnet transport after the reboot.
+     * @throws {@link WattBoxUnsupportedError} If the WattBox firmware is older than 2.0.
+     * @throws {@link WattBoxError}
+     */
+    public async setTelnet(enabled: boolean, opts: WattBoxControlOpts = {}): Promise<void> {
+        this.#requireCapability('serviceCommands', 'Requires Firmware 2.0');
+        await this.#handleControlMessage(`!SetTelnet=${enabled ? 1 : 0}`, opts);
+        if (!this.#opts.dryRun) {
+            this.emit('rebootPending', 'SetTelnet');
         }
+    }
 
-        if (this.#socket) {
-            this.emit('debugmsg', `[--->] ${message}`);
-            this.#socket.write(`${message}\n`);
+    /**
+     * Enable or disable the web server on the WattBox.
+     * @param enabled - Enable or disable the web server
+     * @param opts - Control options
+     * @remarks
+     * Protocol Command: !WebServerSet={enabled}
+     *
+     * Requires WattBox firmware 2.0 or later. A reboot is required for the setting to
+     * take effect, `rebootPending` is emitted once set.
+     * @throws {@link WattBoxUnsupportedError} If the WattBox firmware is older than 2.0.
+     * @throws {@link WattBoxError}
+     */
+    public async setWebServer(enabled: boolean, opts: WattBoxControlOpts = {}): Promise<void> {
+        this.#requireCapability('serviceCommands', 'Requires Firmware 2.0');
+        await this.#handleControlMessage(`!WebServerSet=${enabled ? 1 : 0}`, opts);
+        if (!this.#opts.dryRun) {
+            this.emit('rebootPending', 'WebServerSet');
         }
+    }
 
-        return new Promise<void>((resolve, reject) => {
+    /**
+     * Update the firmware on the WattBox, then wait for it to come back online with a new firmware version.
+     * @param firmware - The URL of the firmware file, or the path to a local firmware file
+     * @param opts - Firmware update options
+     * @remarks
+     * Protocol Command: !FirmwareUpdate={url}
+     *
+     * A local firmware file is served to the WattBox from a temporary HTTP server, bound to
+     * the local address used to reach the WattBox. Emits `firmwareUpdate` as the update progresses.
+     * @returns The new firmware version
+     * @throws {@link WattBoxError} If the update is rejected, the WattBox does not come back online in time, or the firmware version did not change.
+     */
+    public async updateFirmware(firmware: string | URL, opts: WattBoxFirmwareUpdateOpts = {}): Promise<string> {
+        const deadline = Date.now() + (opts.timeout ?? 900000);
+        const waits: (() => void)[] = [];
+        const waitFor = (emitter: EventEmitter, event: string) => new Promise<void>((resolve, reject) => {
             const onTimeout = setTimeout(() => {
-                this.#socket?.destroy();
-                reject(new WattBoxError('Timeout'));
-            }, this.#opts.timeout ?? 5000);
+                emitter.removeListener(event, onEvent);
+                reject(new WattBoxTimeoutError('Timeout'));
+            }, Math.max(0, deadline - Date.now()));
 
-            const onOk = () => {
-                this.#bcc.removeListener('error', onError);
+            const onEvent = () => {
                 clearTimeout(onTimeout);
                 resolve();
             };
 
-            const onError = () => {
-                this.#bcc.removeListener('ok', onOk);
+            emitter.once(event, onEvent);
+            waits.push(() => {
                 clearTimeout(onTimeout);
-                reject(new WattBoxError('Control Error'));
+                emitter.removeListener(event, onEvent);
+            });
+        });
+
+        const isUrl = firmware instanceof URL || /^https?:\/\//i.test(firmware);
+        const server = isUrl ? null : await this.#serveFirmware(firmware.toString(), opts.serverPort ?? 0);
+
+        try {
+            const url = server ? server.url : firmware.toString();
+            const previousFirmware = await this.getFirmware();
+
+            // The WattBox closes the connection right after responding
+            const offline = waitFor(this.#bcc, 'close');
+            offline.catch(() => undefined);
+
+            await this.#handleControlMessage(`!FirmwareUpdate=${url}`, opts);
+            if (this.#opts.dryRun) {
+                return previousFirmware;
+            }
+
+            this.emit('firmwareUpdate', WattBoxFirmwareUpdateStage.SENT);
+
+            await offline;
+            this.emit('firmwareUpdate', WattBoxFirmwareUpdateStage.OFFLINE);
+
+            await waitFor(this, 'ready');
+            this.emit('firmwareUpdate', WattBoxFirmwareUpdateStage.ONLINE);
+
+            const updatedFirmware = await this.getFirmware();
+            if (updatedFirmware === previousFirmware) {
+                throw new WattBoxError('Firmware Not Updated');
+            }
+
+            this.emit('firmwareUpdate', WattBoxFirmwareUpdateStage.VERIFIED);
+            return updatedFirmware;
+        }
+        finally {
+            // Stop waiting for the WattBox to go offline when the update was rejected
+            waits.forEach(x => x());
+            server?.close();
+        }
+    }
+
+    async #serveFirmware(path: string, port: number): Promise<{ url: string; close: () => void }> {
+        const stats = await stat(path).catch(() => null);
+        if (!stats?.isFile()) {
+            throw new WattBoxArgumentError('Firmware File Not Found');
+        }
+
+        // Find the local address used to reach the WattBox, no packets are sent
+        const host = await new Promise<string>((resolve, reject) => {
+            const socket = createSocket('udp4');
+            socket.on('error', (err) => {
+                socket.close();
+                reject(err);
+            });
+            socket.connect(this.#opts.port ?? 23, this.#opts.host, () => {
+                const address = socket.address().address;
+                socket.close();
+                resolve(address);
+            });
+        });
+
+        const filename = basename(path);
+        const server = createServer((req, res) => {
+            if (req.method !== 'GET' || req.url !== `/${encodeURIComponent(filename)}`) {
+                res.writeHead(404).end();
+                return;
+            }
+
+            res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': stats.size });
+            createReadStream(path).pipe(res);
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, host, () => {
+                server.removeListener('error', reject);
+                resolve();
+            });
+        });
+
+        const address = server.address();
+        return {
+            url: `http://${host}:${address && typeof address === 'object' ? address.port : port}/${encodeURIComponent(filename)}`,
+            close: () => server.close()
+        };
+    }
+
+    async #detectCapabilities(): Promise<void> {
+        try {
+            const model = await this.getModel();
+            const firmware = await this.getFirmware();
+            const outletCount = await this.getOutletCount();
+
+            this.#capabilities = {
+                model,
+                firmware,
+                outletCount,
+                powerMetrics: !/^WB-?(?:150|250)\b/i.test(model),
+                ssh: this.#isFirmwareAtLeast(firmware, '1.3.0.4'),
+                serviceCommands: this.#isFirmwareAtLeast(firmware, '2.0')
             };
+        }
+        catch (err) {
+            // Leave the capabilities unknown, calls are sent unchecked
+            this.#capabilities = null;
+            this.emit('debugsock', 'capabilities', err instanceof Error ? err.message : String(err));
+        }
+    }
 
-            Promise.race([
-                this.#bcc.once('ok', onOk),
-                this.#bcc.once('error', onError)
-            ]);
+    #isFirmwareAtLeast(version: string, minimum: string): boolean {
+        const firmware = version.split('.').map(x => parseInt(x) || 0);
+        const required = minimum.split('.').map(x => parseInt(x));
+
+        for (let i = 0; i < required.length; i++) {
+            const diff = (firmware[i] ?? 0) - (required[i] ?? 0);
+            if (diff !== 0) {
+                return diff > 0;
+            }
+        }
+
+        return true;
+    }
+
+    // Unknown capabilities are not checked, the WattBox rejects what it does not support
+    #requireCapability(capability: 'powerMetrics' | 'ssh' | 'serviceCommands', message: string): void {
+        if (this.#capabilities && !this.#capabilities[capability]) {
+            throw new WattBoxUnsupportedError(message);
+        }
+    }
+
+    // Outlets are 1-indexed, the upper bound is only known once capabilities are detected
+    #isOutlet(outlet: number): boolean {
+        return Number.isInteger(outlet) && outlet >= 1 && outlet <= (this.#capabilities?.outletCount ?? Infinity);
+    }
+
+    #checkOutlet(outlet: number): void {
+        if (!this.#isOutlet(outlet)) {
+            throw new WattBoxArgumentError('Invalid Outlet');
+        }
+    }
+
+    // Outlet 0 controls every outlet, so it is protected whenever any outlets are
+    #checkProtected(outlet: number, message: string, opts: WattBoxControlOpts): void {
+        // Outlet 0 controls every outlet, so it is protected whenever protection is configured at all
+        const protectedOutlets = this.#opts.protectedOutlets ?? [];
+        const isProtected = outlet === 0
+            ? protectedOutlets.length > 0 || this.#opts.overrideToken !== undefined
+            : protectedOutlets.includes(outlet);
+
+        if (!isProtected) {
+            return;
+        }
+
+        if (this.#opts.overrideToken !== undefined && opts.override === this.#opts.overrideToken) {
+            return;
+        }
+
+        this.#audit(message, opts, 'denied');
+        throw new WattBoxProtectedError('Protected Outlet', message);
+    }
+
+    // Make the socket stale before closing it, so its close is handled here instead of reconnecting
+    #detach(): WattBoxTransport | null {
+        const socket = this.#socket;
+        const connected = this.#connected;
+
+        this.#socket = null;
+        this.#connected = false;
+        this.#loggedIn = false;
+        this.#stopHeartbeat();
+        this.#rejectCommands(new WattBoxNotConnectedError('Connection Closed'));
+
+        socket?.once('close', () => {
+            this.emit('debugsock', 'close');
+
+            // Unless a new connection was opened in the meantime, which ends this session in the transcript
+            if (!this.#socket) {
+                this.#record({ type: 'close' });
+                this.#endTranscript();
+
+                if (connected) {
+                    this.emit('disconnected');
+                }
+            }
         });
+
+        return socket;
     }
 
-    #handleData(data: string): void {
-        const message = data.trim();
+    #reconnectDelay(attempt: number): number | null {
+        const policy = this.#opts.reconnect ?? {};
+        if (typeof policy === 'function') {
+            return policy(attempt);
+        }
+
+        if (attempt > (policy.maxAttempts ?? this.#opts.maxReconnectAttempts ?? Infinity)) {
+            return null;
+        }
+
+        // 2, 4, 8, 16, 32, 32, ... seconds by default
+        const delay = Math.min(policy.maxDelay ?? 32000, (policy.baseDelay ?? 2000) * Math.pow(2, attempt - 1));
+        return Math.round(delay - delay * (policy.jitter ?? 0) * Math.random());
+    }
 
-        // Handle Multiple Messages
-        // Example: OK\n~OutletStatus=1,1,1,1,1,1
-        if (message.split('\n').length > 1) {
-            message.split('\n').forEach(msg => this.#handleData(msg));
+    // Detect a WattBox that stops responding without closing the connection, which
+    // TCP keepalive may not notice, and force a reconnect
+    #startHeartbeat(socket: WattBoxTransport): void {
+        const heartbeat = this.#opts.heartbeat;
+        if (!heartbeat) {
             return;
         }
 
-        // Login Prompts & Messages
-        switch (message) {
-            case 'Please Login to Continue':
-                return;
-            case 'Username:':
-                if (this.#socket) {
-                    this.#socket.write(`${this.#opts.username}\n`);
+        this.#stopHeartbeat();
+        let missed = 0;
+
+        const beat = async () => {
+            const start = performance.now();
+
+            try {
+                await this.#handleRequestMessage('?Firmware');
+                missed = 0;
+                this.emit('heartbeat', performance.now() - start);
+            }
+            catch (err) {
+                // Any response shows the WattBox is alive, closing the connection stops the heartbeat
+                if (err instanceof WattBoxDeviceError) {
+                    missed = 0;
+                    this.emit('heartbeat', performance.now() - start);
                 }
-                return;
-            case 'Password:':
-                if (this.#socket) {
-                    this.#socket.write(`${this.#opts.password}\n`);
+                else if (err instanceof WattBoxTimeoutError) {
+                    missed++;
+                    this.emit('heartbeatMissed', missed);
                 }
+            }
+
+            if (this.#socket !== socket || !this.#loggedIn) {
                 return;
-            case 'Successfully Logged In!':
-                this.#bcc.emit('login', true);
+            }
+
+            if (missed >= (heartbeat.maxMissed ?? 3)) {
+                this.emit('debugsock', 'heartbeat', `${missed} missed`);
+                socket.destroy();
                 return;
-            case 'Invalid Login':
-                this.#bcc.emit('login', false);
+            }
+
+            this.#heartbeatTimer = setTimeout(() => void beat(), heartbeat.interval ?? 30000);
+        };
+
+        this.#heartbeatTimer = setTimeout(() => void beat(), heartbeat.interval ?? 30000);
+    }
+
+    #stopHeartbeat(): void {
+        if (this.#heartbeatTimer) {
+            clearTimeout(this.#heartbeatTimer);
+            this.#heartbeatTimer = null;
+        }
+    }
+
+    #setState(state: WattBoxConnectionState): void {
+        const previous = this.#state;
+        if (state !== previous) {
+            this.#state = state;
+            this.emit('stateChange', state, previous);
+        }
+    }
+
+    #formatSchedule(schedule: WattBoxSchedule): string {
+        const name = this.#encodeName(schedule.name);
+        if (name === null) {
+            throw new WattBoxArgumentError('Invalid Schedule Name');
+        }
+
+        if (schedule.outlets.length === 0 || schedule.outlets.some(x => !this.#isOutlet(x))) {
+            throw new WattBoxArgumentError('Invalid Schedule Outlets');
+        }
+
+        const { hour, minute } = schedule.time;
+        if (!Number.isInteger(hour) || hour < 0 || hour > 23 || !Number.isInteger(minute) || minute < 0 || minute > 59) {
+            throw new WattBoxArgumentError('Invalid Schedule Time');
+        }
+
+        const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+        let when: string;
+
+        if (schedule.frequency === WattBoxScheduleFrequency.ONCE) {
+            const date = schedule.date;
+            if (isNaN(date.getTime())) {
+                throw new WattBoxArgumentError('Invalid Schedule Date');
+            }
+
+            when = `${pad(date.getFullYear(), 4)}/${pad(date.getMonth() + 1)}/${pad(date.getDate())}`;
+        }
+        else {
+            if (schedule.days.length === 0 || schedule.days.some(x => !Number.isInteger(x) || x < 0 || x > 6)) {
+                throw new WattBoxArgumentError('Invalid Schedule Days');
+            }
+
+            when = [0, 1, 2, 3, 4, 5, 6].map(x => schedule.days.includes(x) ? 1 : 0).join(',');
+        }
+
+        return [
+            name,
+            schedule.outlets.join(','),
+            schedule.action,
+            schedule.frequency,
+            when,
+            `${pad(hour)}:${pad(minute)}`
+        ].map(x => `{${x}}`).join(',');
+    }
+
+    // Returns the trimmed name, or null if the WattBox cannot store it
+    #encodeName(name: string): string | null {
+        const encodedName = name.trim();
+
+        // Names are wrapped in braces when listed, so they cannot contain them
+        if (encodedName.length === 0 || encodedName.length > 32 || !/^[\x20-\x7E]+$/.test(encodedName) || /[{}]/.test(encodedName)) {
+            return null;
+        }
+
+        return encodedName;
+    }
+
+    async #handleControlMessage(message: string, opts: WattBoxControlOpts): Promise<void> {
+        if (this.#opts.dryRun) {
+            this.emit('debugmsg', `[DRY-RUN] ${this.#redact(message)}`);
+            this.#audit(message, opts, 'dryRun');
+            return;
+        }
+
+        try {
+            await this.#enqueueCommand(message, null);
+        }
+        catch (err) {
+            this.#audit(message, opts, 'error', err instanceof Error ? err : new Error(String(err)));
+            throw err;
+        }
+
+        this.#audit(message, opts, 'ok');
+    }
+
+    #audit(message: string, opts: WattBoxControlOpts, result: WattBoxAuditEntry['result'], error?: Error): void {
+        if (!this.#opts.audit) {
+            return;
+        }
+
+        const entry: WattBoxAuditEntry = { timestamp: new Date(), actor: opts.actor ?? this.#opts.actor ?? null, command: this.#redact(message), result };
+        if (error) {
+            entry.error = error;
+        }
+
+        // A failing audit hook must not fail a command that was already sent
+        try {
+            this.#opts.audit(entry);
+        }
+        catch (err) {
+            this.emit('debugsock', 'audit', err instanceof Error ? err.message : String(err));
+        }
+    }
+
+    #enqueueCommand(message: string, request: string | null): Promise<string> {
+        if (!this.#connected) {
+            return Promise.reject(new WattBoxNotConnectedError('Not Connected', message));
+        }
+
+        return new Promise<string>((resolve, reject) => {
+            this.#commandQueue.push({ message, request, resolve, reject, timer: null, timedOut: false });
+            this.#sendCommands();
+        });
+    }
+
+    #sendCommands(): void {
+        const pipelineDepth = Math.max(1, this.#opts.pipelineDepth ?? 1);
+
+        while (this.#socket && this.#commandsInFlight.length < pipelineDepth) {
+            const command = this.#commandQueue.shift();
+            if (!command) {
                 return;
+            }
+
+            command.timer = setTimeout(() => this.#timeoutCommand(command), this.#opts.timeout ?? 5000);
+            this.#commandsInFlight.push(command);
+
+            this.emit('debugmsg', `[--->] ${this.#redact(command.message)}`);
+            this.#write(this.#socket, command.message);
         }
+    }
 
-        // Emit Non-Login Messages
-        this.emit('debugmsg', `[<---] ${message}`);
+    #timeoutCommand(command: WattBoxCommand): void {
+        // Keep a timed out command in flight for another timeout period, so a
+        // late response is not mistaken for the response to a later command
+        if (!command.timedOut) {
+            command.timedOut = true;
+            command.timer = setTimeout(() => this.#timeoutCommand(command), this.#opts.timeout ?? 5000);
+            command.reject(new WattBoxTimeoutError('Timeout', command.message));
+            return;
+        }
+
+        // Assume the WattBox dropped the command
+        this.#commandsInFlight = this.#commandsInFlight.filter(x => x !== command);
+        this.#sendCommands();
+    }
+
+    #handleCommandResponse(message: WattBoxValueMessage | WattBoxStatusMessage): void {
+        const matches = (command: WattBoxCommand) => {
+            if ('command' in message) {
+                return message.command === command.request;
+            }
+
+            // #Error responds to requests and controls alike
+            return message.type === 'error' || command.request === null;
+        };
+
+        // Skip timed out commands the WattBox never responded to
+        while (this.#commandsInFlight[0]?.timedOut && !matches(this.#commandsInFlight[0])) {
+            const command = this.#commandsInFlight.shift();
+            if (command?.timer) {
+                clearTimeout(command.timer);
+            }
+        }
+
+        const command = this.#commandsInFlight[0];
+        if (!command || !matches(command)) {
+            return;
+        }
+
+        this.#commandsInFlight.shift();
+        if (command.timer) {
+            clearTimeout(command.timer);
+        }
+
+        if (!command.timedOut) {
+            if (message.type === 'error') {
+                command.reject(new WattBoxDeviceError(command.request !== null ? 'Request Error' : 'Control Error', command.message));
+            }
+            else {
+                command.resolve('value' in message ? message.value : '');
+            }
+        }
+
+        this.#sendCommands();
+    }
 
-        // Request Messages
-        if (message.startsWith('?')) {
-            const messageParts = message.split('=');
-            const messagePrefix = messageParts[0] ? messageParts[0] : message;
-            this.#bcc.emit(messagePrefix, message);
+    #rejectCommands(err: WattBoxError): void {
+        const commands = [...this.#commandsInFlight, ...this.#commandQueue];
+        this.#commandsInFlight = [];
+        this.#commandQueue = [];
+
+        for (const command of commands) {
+            if (command.timer) {
+                clearTimeout(command.timer);
+            }
+
+            if (!command.timedOut) {
+                command.reject(err);
+            }
+        }
+    }
+
+    #write(socket: WattBoxTransport | null, line: string, secret = false): void {
+        if (!socket) {
             return;
         }
 
-        // Control Messages
-        switch (message) {
-            case 'OK':
-                this.#bcc.emit('ok');
+        // Credentials are never recorded
+        this.#record({ type: 'out', line: secret ? WATTBOX_TRANSCRIPT_REDACTED : this.#redact(line) });
+        socket.write(`${line}\n`);
+    }
+
+    #redact(line: string): string {
+        return line.replace(/^(!AccountSet=[^,]*,).*$/s, `$1${WATTBOX_TRANSCRIPT_REDACTED}`);
+    }
+
+    #record(entry: Omit<WattBoxTranscriptEntry, 'time'>): void {
+        this.#transcript?.write(`${JSON.stringify({ time: new Date().toISOString(), ...entry })}\n`);
+    }
+
+    #endTranscript(): void {
+        this.#transcript?.end();
+        this.#transcript = null;
+    }
+
+    #handleData(data: string): void {
+        // Responses may be split across chunks, or several may arrive in one chunk
+        for (const line of this.#framer.push(data)) {
+            this.#record({ type: 'in', line });
+            this.#handleMessage(line, decodeWattBoxResponse(line));
+        }
+    }
+
+    #handleMessage(line: string, message: WattBoxResponseMessage): void {
+        // Login Prompts & Messages
+        switch (message.type) {
+            case 'prompt':
+                if (message.prompt === 'username') {
+                    this.#write(this.#socket, this.#opts.username);
+                }
+                else if (message.prompt === 'password') {
+                    this.#write(this.#socket, this.#opts.password, true);
+                }
                 return;
-            case '#Error':
-                this.#bcc.emit('error');
+            case 'login':
+                this.#bcc.emit('login', message.success);
                 return;
         }
 
-        // Unsolicited Messages
-        if (message.startsWith('~OutletStatus')) {
-            const match = /~OutletStatus=((?:[01],)*[01])/.exec(message);
-            if (match && match[1]) {
-                this.emit('outletStatus', match[1].split(',').map(x => Boolean(parseInt(x))));
-            }
+        // Emit Non-Login Messages
+        this.emit('debugmsg', `[<---] ${line}`);
+
+        switch (message.type) {
+            // Request & Control Messages
+            case 'response':
+            case 'ok':
+            case 'error':
+                this.#handleCommandResponse(message);
+                return;
+            // Unsolicited Messages
+            case 'unsolicited':
+                if (message.command === 'OutletStatus') {
+                    const outlets = parseWattBoxOutletStatus(message.value);
+                    if (outlets) {
+                        this.emit('outletStatus', outlets);
+                    }
+                }
+                return;
         }
     }
 }
 
+export type WattBoxConnectionState = 'connecting' | 'authenticating' | 'ready' | 'reconnecting' | 'closed';
+
 export interface WattBoxClientOpts {
     host: string;
     username: string;
     password: string;
-    /** Maximum number of reconnect attempts before giving up, default Infinity */
+    /** Actor recorded in the audit log when a control command does not supply one, default none */
+    actor?: string;
+    /** Called with an audit log entry for every control command, default none */
+    audit?: (entry: WattBoxAuditEntry) => void;
+    /** Log control commands instead of sending them to the WattBox, default false */
+    dryRun?: boolean;
+    /** Send a request on an interval to measure latency and detect an unresponsive WattBox, default none */
+    heartbeat?: WattBoxHeartbeatOpts;
+    /**
+     * Maximum number of reconnect attempts before giving up, default Infinity
+     * @deprecated Use `reconnect.maxAttempts`
+     */
     maxReconnectAttempts?: number;
+    /** Token that must be supplied to control protected outlets and outlet 0 (all outlets), default none (protected outlets cannot be controlled) */
+    overrideToken?: string;
+    /** Maximum number of commands sent to the WattBox while awaiting responses, default 1 */
+    pipelineDepth?: number;
+    /** Port to connect to, default 23 for telnet and 22 for SSH */
+    port?: number;
+    /** Outlet numbers (1-indexed) that require the override token to control, outlet 0 (all outlets) is protected whenever set or an override token is configured, default none */
+    protectedOutlets?: number[];
+    /** Reconnect backoff policy, or a function returning the delay in milliseconds for an attempt or null to give up, default exponential backoff from 2s to 32s */
+    reconnect?: WattBoxReconnectPolicy | ((attempt: number) => number | null);
+    /** Path of a JSONL file to append a transcript of every session to, with credentials redacted, default none */
+    record?: string;
     /** Connection and request timeout in milliseconds, default 5000ms (5s) */
     timeout?: number;
+    /** Transport used to connect, or a factory creating one, default 'telnet'. SSH requires WattBox firmware 1.3.0.4 or later. */
+    transport?: WattBoxTransportType | WattBoxTransportFactory;
+}
+
+export interface WattBoxHeartbeatOpts {
+    /** Time between heartbeats in milliseconds, default 30000ms (30s) */
+    interval?: number;
+    /** Consecutive heartbeats that time out before the connection is closed and reconnected, default 3 */
+    maxMissed?: number;
+}
+
+export interface WattBoxReconnectPolicy {
+    /** Delay before the first reconnect attempt in milliseconds, doubled for each attempt after, default 2000ms (2s) */
+    baseDelay?: number;
+    /** Maximum delay between reconnect attempts in milliseconds, default 32000ms (32s) */
+    maxDelay?: number;
+    /** Fraction of each delay randomly subtracted, so many clients do not reconnect at once, 0-1, default 0 */
+    jitter?: number;
+    /** Maximum number of reconnect attempts before giving up, default Infinity */
+    maxAttempts?: number;
+}
+
+export interface WattBoxAuditEntry {
+    /** When the control command completed */
+    timestamp: Date;
+    /** The actor supplied with the command or the client, or null if none */
+    actor: string | null;
+    /** The control command, with credentials redacted */
+    command: string;
+    /** Whether the command was accepted, failed, logged in dry-run mode, or denied for a protected outlet */
+    result: 'ok' | 'error' | 'dryRun' | 'denied';
+    /** The error, for failed commands */
+    error?: Error;
+}
+
+export interface WattBoxControlOpts {
+    /** Actor recorded in the audit log, default the client actor */
+    actor?: string;
+    /** Override token required to control protected outlets */
+    override?: string;
+}
+
+export interface WattBoxAccountSetOpts extends WattBoxControlOpts {
+    /** Time to wait to log back in with the new credentials in milliseconds, default 60000ms (60s) */
+    timeout?: number;
 }
 
-export class WattBoxError extends Error { }
+export interface WattBoxFirmwareUpdateOpts extends WattBoxControlOpts {
+    /** Port to serve a local firmware file on, default 0 (a random available port) */
+    serverPort?: number;
+    /** Time to wait for the update to complete in milliseconds, default 900000ms (15m) */
+    timeout?: number;
+}
+
+export interface WattBoxNetworkSetOpts extends WattBoxControlOpts {
+    /** Reconnect to the new static IP address and wait until logged in again, default false */
+    follow?: boolean;
+    /** Time to wait for the WattBox to come back online in milliseconds when following, default 300000ms (5m) */
+    timeout?: number;
+}
+
+interface WattBoxCommand {
+    message: string;
+    /** Expected response command for request messages, null for control messages */
+    request: string | null;
+    resolve: (response: string) => void;
+    reject: (err: WattBoxError) => void;
+    timer: NodeJS.Timeout | null;
+    timedOut: boolean;
+}
+
+export type WattBoxErrorCode = 'ERROR' | 'AUTH' | 'DEVICE' | 'INVALID_ARGUMENT' | 'NOT_CONNECTED' | 'PARSE' | 'PROTECTED' | 'TIMEOUT' | 'UNSUPPORTED';
+
+export class WattBoxError extends Error {
+    /** Error code identifying the kind of failure */
+    public readonly code: WattBoxErrorCode = 'ERROR';
+    /** The protocol command that failed, or null if the failure is not tied to a command */
+    public readonly command: string | null;
+
+    constructor(message: string, command: string | null = null) {
+        super(message);
+        this.name = new.target.name;
+        this.command = command;
+    }
+}
+
+/** Thrown when the WattBox rejects the login. */
+export class WattBoxAuthError extends WattBoxError {
+    public override readonly code = 'AUTH';
+}
+
+/** Thrown when the WattBox rejects the login after changing the account credentials. */
+export class WattBoxCredentialsError extends WattBoxAuthError { }
+
+/** Thrown when the WattBox responds to a command with #Error. */
+export class WattBoxDeviceError extends WattBoxError {
+    public override readonly code = 'DEVICE';
+}
+
+/** Thrown before sending a command with an argument the WattBox cannot accept. */
+export class WattBoxArgumentError extends WattBoxError {
+    public override readonly code = 'INVALID_ARGUMENT';
+}
+
+/** Thrown when a command cannot be sent or completed because the client is not connected. */
+export class WattBoxNotConnectedError extends WattBoxError {
+    public override readonly code = 'NOT_CONNECTED';
+}
+
+/** Thrown when a response from the WattBox cannot be parsed. */
+export class WattBoxParseError extends WattBoxError {
+    public override readonly code = 'PARSE';
+}
+
+/** Thrown before sending a command to a protected outlet without the override token. */
+export class WattBoxProtectedError extends WattBoxError {
+    public override readonly code = 'PROTECTED';
+}
+
+/** Thrown when the WattBox does not respond in time. */
+export class WattBoxTimeoutError extends WattBoxError {
+    public override readonly code = 'TIMEOUT';
+}
+
+/** Thrown before sending a command the WattBox model or firmware does not support. */
+export class WattBoxUnsupportedError extends WattBoxError {
+    public override readonly code = 'UNSUPPORTED';
+}
 
 export interface WattBoxEvents {
+    /** Emitted when the account credentials are changed and the client is logged in with them. */
+    credentialsChanged: [username: string];
     /** Emit debug logs for WattBox messages */
     debugmsg: [message: string];
     /** Emit debug logs for socket events */
     debugsock: [event: string, payload?: string];
+    /** Emitted when an established connection to the WattBox closes. */
+    disconnected: [];
+    /** Emitted as a firmware update progresses. */
+    firmwareUpdate: [stage: WattBoxFirmwareUpdateStage];
+    /** Emitted when a heartbeat response is received, with the round-trip latency in milliseconds. */
+    heartbeat: [latency: number];
+    /** Emitted when a heartbeat times out, with the number of consecutive missed heartbeats. */
+    heartbeatMissed: [missed: number];
     /** Emitted when outlet status changes. */
     outletStatus: [outlets: boolean[]];
+    /** Emitted when a setting requires a reboot of the WattBox to take effect. */
+    rebootPending: [command: string];
     /** Emitted when client is connected or reconnected. */
     ready: [];
+    /** Emitted when giving up reconnecting after the maximum number of attempts. */
+    reconnectFailed: [attempts: number];
+    /** Emitted when a reconnect is scheduled, with the attempt number and delay in milliseconds. */
+    reconnecting: [attempt: number, delay: number];
+    /** Emitted when the connection state changes. */
+    stateChange: [state: WattBoxConnectionState, previous: WattBoxConnectionState];
 }
@@ -0,0 +1,288 @@
+import type { WattBoxOutletPowerMetrics, WattBoxPowerMetrics, WattBoxUPSMetrics } from './schemas.js';
+
+/**
+ * Splits a stream of protocol data into lines, buffering partial lines across chunks.
+ * @remarks
+ * Lines are trimmed and empty lines are dropped. Login prompts are written without a
+ * line terminator, so a buffered partial line matching a prompt is released as a line.
+ */
+export class WattBoxLineFramer {
+    #opts: WattBoxLineFramerOpts;
+
+    #buffer = '';
+
+    constructor(opts: WattBoxLineFramerOpts = {}) {
+        this.#opts = opts;
+    }
+
+    /**
+     * The buffered partial line awaiting a line terminator.
+     * @returns The buffered data
+     */
+    public get pending(): string {
+        return this.#buffer;
+    }
+
+    /**
+     * Add a chunk of protocol data.
+     * @param chunk - The protocol data, which may hold partial lines
+     * @returns The complete lines in the order received
+     */
+    public push(chunk: string): string[] {
+        const lines = (this.#buffer + chunk).split('\n');
+        this.#buffer = lines.pop() ?? '';
+
+        const result: string[] = [];
+        for (const line of lines) {
+            const rest = this.#takePrompts(line, result);
+            if (rest.trim().length > 0) {
+                result.push(rest.trim());
+            }
+        }
+
+        this.#buffer = this.#takePrompts(this.#buffer, result);
+        return result;
+    }
+
+    /**
+     * Discard the buffered partial line, e.g. when the connection is reset.
+     */
+    public reset(): void {
+        this.#buffer = '';
+    }
+
+    // Prompts are not terminated, so anything after one belongs to the next line
+    #takePrompts(line: string, result: string[]): string {
+        const prompts = this.#opts.prompts ?? ['Username:', 'Password:'];
+
+        let rest = line.trimStart();
+        let prompt = prompts.find(x => rest.startsWith(x));
+        while (prompt) {
+            result.push(prompt);
+            rest = rest.slice(prompt.length).trimStart();
+            prompt = prompts.find(x => rest.startsWith(x));
+        }
+
+        return rest;
+    }
+}
+
+export interface WattBoxLineFramerOpts {
+    /** Unterminated prompts released without a line terminator, default ['Username:', 'Password:'] */
+    prompts?: string[];
+}
+
+/** A request or control command sent to the WattBox. */
+export interface WattBoxRequestMessage {
+    type: 'request' | 'control';
+    /** The command name without the ? or ! prefix, e.g. OutletSet */
+    command: string;
+    /** The raw command parameters, or null if none */
+    params: string | null;
+}
+
+/** A response to a request, or an unsolicited message from the WattBox. */
+export interface WattBoxValueMessage {
+    type: 'response' | 'unsolicited';
+    /** The command name without the ? or ~ prefix, e.g. OutletStatus */
+    command: string;
+    /** The raw response value */
+    value: string;
+}
+
+/** The result of a control command, or a rejected command. */
+export interface WattBoxStatusMessage {
+    type: 'ok' | 'error';
+}
+
+export interface WattBoxPromptMessage {
+    type: 'prompt';
+    prompt: 'login' | 'username' | 'password';
+}
+
+export interface WattBoxLoginMessage {
+    type: 'login';
+    success: boolean;
+}
+
+/** Login credentials, and any line that is not recognized. */
+export interface WattBoxTextMessage {
+    type: 'text';
+    text: string;
+}
+
+/** A message sent to the WattBox. */
+export type WattBoxCommandMessage = WattBoxRequestMessage | WattBoxTextMessage;
+
+/** A message received from the WattBox. */
+export type WattBoxResponseMessage = WattBoxValueMessage | WattBoxStatusMessage | WattBoxPromptMessage | WattBoxLoginMessage | WattBoxTextMessage;
+
+export type WattBoxMessage = WattBoxCommandMessage | WattBoxResponseMessage;
+
+/**
+ * Decode a line received from the WattBox.
+ * @param line - The line, without the line terminator
+ * @returns The typed message, or a text message if the line is not recognized
+ */
+export function decodeWattBoxResponse(line: string): WattBoxResponseMessage {
+    switch (line) {
+        case 'OK':
+            return { type: 'ok' };
+        case '#Error':
+            return { type: 'error' };
+        case 'Please Login to Continue':
+            return { type: 'prompt', prompt: 'login' };
+        case 'Username:':
+            return { type: 'prompt', prompt: 'username' };
+        case 'Password:':
+            return { type: 'prompt', prompt: 'password' };
+        case 'Successfully Logged In!':
+            return { type: 'login', success: true };
+        case 'Invalid Login':
+            return { type: 'login', success: false };
+    }
+
+    const match = /^([?~])(\w+)=(.*)$/s.exec(line);
+    if (match && match[1] && match[2] && match[3] !== undefined) {
+        return { type: match[1] === '?' ? 'response' : 'unsolicited', command: match[2], value: match[3] };
+    }
+
+    return { type: 'text', text: line };
+}
+
+/**
+ * Decode a line sent to the WattBox.
+ * @param line - The line, without the line terminator
+ * @returns The typed message, or a text message if the line is not a command
+ */
+export function decodeWattBoxCommand(line: string): WattBoxCommandMessage {
+    const match = /^([?!])(\w+)(?:=(.*))?$/s.exec(line);
+    if (match && match[1] && match[2]) {
+        return { type: match[1] === '?' ? 'request' : 'control', command: match[2], params: match[3] ?? null };
+    }
+
+    return { type: 'text', text: line };
+}
+
+/**
+ * Encode a message as protocol data.
+ * @param message - The message to encode
+ * @returns The protocol data, including the line terminator except for login prompts
+ */
+export function encodeWattBoxMessage(message: WattBoxMessage): string {
+    switch (message.type) {
+        case 'request':
+        case 'control':
+            return `${message.type === 'request' ? '?' : '!'}${message.command}${message.params !== null ? `=${message.params}` : ''}\n`;
+        case 'response':
+        case 'unsolicited':
+            return `${message.type === 'response' ? '?' : '~'}${message.command}=${message.value}\n`;
+        case 'ok':
+        case 'error':
+            return message.type === 'ok' ? 'OK\n' : '#Error\n';
+        case 'prompt':
+            return { login: 'Please Login to Continue\n', username: 'Username: ', password: 'Password: ' }[message.prompt];
+        case 'login':
+            return message.success ? 'Successfully Logged In!\n' : 'Invalid Login\n';
+        case 'text':
+            return `${message.text}\n`;
+    }
+}
+
+/**
+ * Parse a 0 or 1 flag value, e.g. from ?AutoReboot.
+ * @param value - The response value
+ * @returns The flag, or null if the value is not a flag
+ */
+export function parseWattBoxFlag(value: string): boolean | null {
+    return value === '0' || value === '1' ? value === '1' : null;
+}
+
+/**
+ * Parse an integer value, e.g. from ?OutletCount.
+ * @param value - The response value
+ * @returns The integer, or null if the value is not an integer
+ */
+export function parseWattBoxInteger(value: string): number | null {
+    return /^\d+$/.test(value) ? parseInt(value) : null;
+}
+
+/**
+ * Parse an outlet names value, where names are wrapped in braces and may contain commas,
+ * e.g. `{Outlet 1},{Amp, Zone 2}` from ?OutletName.
+ * @param value - The response value
+ * @returns The outlet names, starting with outlet 1
+ */
+export function parseWattBoxOutletNames(value: string): string[] {
+    return Array.from(value.matchAll(/\{([^{}]*)\}/g), x => x[1] ?? '');
+}
+
+/**
+ * Parse an outlet status value, e.g. from ?OutletStatus or ~OutletStatus.
+ * @param value - The response value
+ * @returns The outlet states starting with outlet 1, or null if the value cannot be parsed
+ */
+export function parseWattBoxOutletStatus(value: string): boolean[] | null {
+    const match = /^((?:[01],)*[01])/.exec(value);
+    return match && match[1] ? match[1].split(',').map(x => x === '1') : null;
+}
+
+/**
+ * Parse an outlet power status value from ?OutletPowerStatus.
+ * @param value - The response value
+ * @returns The outlet power metrics, or null if the value cannot be parsed
+ */
+export function parseWattBoxOutletPowerStatus(value: string): WattBoxOutletPowerMetrics | null {
+    const match = /^(\d+),(\d+(?:\.\d+)?),(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)/.exec(value);
+    if (!match || !match[1] || !match[2] || !match[3] || !match[4]) {
+        return null;
+    }
+
+    return {
+        outlet: parseInt(match[1]),
+        watts: parseFloat(match[2]),
+        amps: parseFloat(match[3]),
+        volts: parseFloat(match[4])
+    };
+}
+
+/**
+ * Parse a power status value from ?PowerStatus.
+ * @param value - The response value
+ * @returns The power metrics, or null if the value cannot be parsed
+ */
+export function parseWattBoxPowerStatus(value: string): WattBoxPowerMetrics | null {
+    const match = /^(\d+(?:\.\d+)?),(\d+(?:\.\d+)?),(\d+(?:\.\d+)?),([01])/.exec(value);
+    if (!match || !match[1] || !match[2] || !match[3] || !match[4]) {
+        return null;
+    }
+
+    return {
+        amps: parseFloat(match[1]),
+        watts: parseFloat(match[2]),
+        volts: parseFloat(match[3]),
+        safeVoltageStatus: match[4] === '1'
+    };
+}
+
+/**
+ * Parse a UPS status value from ?UPSStatus.
+ * @param value - The response value
+ * @returns The UPS metrics, or null if the value cannot be parsed
+ */
+export function parseWattBoxUPSStatus(value: string): WattBoxUPSMetrics | null {
+    const match = /^(\d+),(\d+),(Good|Bad),(True|False),(\d+),(True|False),(True|False)/.exec(value);
+    if (!match || !match[1] || !match[2] || !match[3] || !match[4] || !match[5] || !match[6] || !match[7]) {
+        return null;
+    }
+
+    return {
+        batteryCharge: parseInt(match[1]),
+        batteryLoad: parseInt(match[2]),
+        batteryHealthy: match[3] === 'Good',
+        powerLost: match[4] === 'True',
+        batteryRuntime: parseInt(match[5]),
+        alarmEnabled: match[6] === 'True',
+        alarmMuted: match[7] === 'True'
+    };
+}
@@ -0,0 +1,174 @@
+import { EventEmitter } from 'events';
+import type { WattBoxClient } from './client.js';
+import type { WattBoxOutletPowerMetrics, WattBoxPowerMetrics } from './schemas.js';
+
+/**
+ * A stateful model of a WattBox, kept in sync through a {@link WattBoxClient}.
+ * @remarks
+ * The snapshot is seeded when the client is ready, updated from unsolicited outlet
+ * status messages, and resynced after every reconnect. Outlet state changes are
+ * emitted as `outletChanged` events, including changes missed while disconnected.
+ */
+export class WattBoxDevice extends EventEmitter<WattBoxDeviceEvents> {
+    #client: WattBoxClient;
+    #snapshot: WattBoxDeviceSnapshot | null = null;
+
+    #onOutletStatus = (outlets: boolean[]) => this.#updateOutlets(outlets);
+    #onReady = () => {
+        this.sync().catch(err => this.emit('syncError', err));
+    };
+
+    constructor(client: WattBoxClient) {
+        super();
+        this.#client = client;
+        this.#client.on('outletStatus', this.#onOutletStatus);
+        this.#client.on('ready', this.#onReady);
+    }
+
+    /**
+     * The client used to communicate with the WattBox.
+     * @returns The WattBox client
+     */
+    public get client(): WattBoxClient {
+        return this.#client;
+    }
+
+    /**
+     * The last known state of the WattBox, or null if not yet synced.
+     * @returns The device snapshot
+     */
+    public get snapshot(): WattBoxDeviceSnapshot | null {
+        return this.#snapshot;
+    }
+
+    /**
+     * Stop tracking the WattBox, the client is left connected.
+     */
+    public dispose(): void {
+        this.#client.removeListener('outletStatus', this.#onOutletStatus);
+        this.#client.removeListener('ready', this.#onReady);
+    }
+
+    /**
+     * Get the power metrics for the WattBox and every outlet, and update the snapshot.
+     * @remarks
+     * Not supported on WB150/250, the power metrics are left null.
+     * @throws {@link WattBoxError}
+     */
+    public async refreshPowerMetrics(): Promise<void> {
+        const snapshot = this.#snapshot;
+        if (!snapshot) {
+            return;
+        }
+
+        snapshot.powerMetrics = await this.#client.getPowerMetrics().catch(() => null);
+
+        for (const outlet of snapshot.outlets) {
+            outlet.powerMetrics = snapshot.powerMetrics ? await this.#client.getOutletPowerMetrics(outlet.outlet).catch(() => null) : null;
+        }
+
+        this.emit('powerMetrics', snapshot.powerMetrics);
+    }
+
+    /**
+     * Get the full state of the WattBox and replace the snapshot.
+     * @remarks
+     * Called automatically when the client is ready. Emits `outletChanged` for outlets
+     * that changed since the previous snapshot.
+     * @returns The updated device snapshot
+     * @throws {@link WattBoxError}
+     */
+    public async sync(): Promise<WattBoxDeviceSnapshot> {
+        const model = await this.#client.getModel();
+        const serviceTag = await this.#client.getServiceTag();
+        const firmware = await this.#client.getFirmware();
+        const names = await this.#client.getOutletNames();
+        const states = await this.#client.getOutletStatus();
+
+        const previous = this.#snapshot;
+        this.#snapshot = {
+            model,
+            serviceTag,
+            firmware,
+            outlets: states.map((on, i) => ({
+                outlet: i + 1,
+                name: names[i] ?? '',
+                on,
+                powerMetrics: null
+            })),
+            powerMetrics: null
+        };
+
+        await this.refreshPowerMetrics();
+        this.emit('sync', this.#snapshot);
+
+        if (previous) {
+            for (const outlet of this.#snapshot.outlets) {
+                const previousOutlet = previous.outlets[outlet.outlet - 1];
+                if (previousOutlet && previousOutlet.on !== outlet.on) {
+                    this.emit('outletChanged', { outlet: outlet.outlet, name: outlet.name, previous: previousOutlet.on, current: outlet.on });
+                }
+            }
+        }
+
+        return this.#snapshot;
+    }
+
+    #updateOutlets(states: boolean[]): void {
+        const snapshot = this.#snapshot;
+        if (!snapshot) {
+            return;
+        }
+
+        states.forEach((on, i) => {
+            const outlet = snapshot.outlets[i];
+            if (!outlet) {
+                snapshot.outlets.push({ outlet: i + 1, name: '', on, powerMetrics: null });
+                return;
+            }
+
+            if (outlet.on !== on) {
+                const previous = outlet.on;
+                outlet.on = on;
+                this.emit('outletChanged', { outlet: outlet.outlet, name: outlet.name, previous, current: on });
+            }
+        });
+    }
+}
+
+export interface WattBoxDeviceEvents {
+    /** Emitted when an outlet turns on or off. */
+    outletChanged: [change: WattBoxOutletChange];
+    /** Emitted when the power metrics are refreshed, null if unsupported. */
+    powerMetrics: [metrics: WattBoxPowerMetrics | null];
+    /** Emitted when the snapshot is synced with the WattBox. */
+    sync: [snapshot: WattBoxDeviceSnapshot];
+    /** Emitted when an automatic sync fails. */
+    syncError: [err: Error];
+}
+
+export interface WattBoxDeviceOutlet {
+    /** The outlet number (1-indexed) */
+    outlet: number;
+    name: string;
+    on: boolean;
+    /** The last known outlet power metrics, or null if unavailable */
+    powerMetrics: WattBoxOutletPowerMetrics | null;
+}
+
+export interface WattBoxDeviceSnapshot {
+    model: string;
+    serviceTag: string;
+    firmware: string;
+    outlets: WattBoxDeviceOutlet[];
+    /** The last known power metrics, or null if unavailable */
+    powerMetrics: WattBoxPowerMetrics | null;
+}
+
+export interface WattBoxOutletChange {
+    /** The outlet number (1-indexed) */
+    outlet: number;
+    name: string;
+    previous: boolean;
+    current: boolean;
+}
@@ -0,0 +1,221 @@
+import { createSocket } from 'dgram';
+import { EventEmitter } from 'events';
+import type { RemoteInfo, Socket } from 'dgram';
+import type { WattBoxClientOpts } from './client.js';
+
+/**
+ * Listens for SDDP (Simple Device Discovery Protocol) announcements from WattBox devices on the LAN.
+ * @remarks
+ * WattBox firmware 2.0 or later announces itself over SDDP when enabled with `!SetSDDP`. Devices are
+ * found when they announce themselves or respond to a search, and lost when they announce they are
+ * going offline or stop announcing for longer than their max age. Other SDDP devices are ignored.
+ */
+export class WattBoxDiscovery extends EventEmitter<WattBoxDiscoveryEvents> {
+    #opts: WattBoxDiscoveryOpts;
+
+    #devices = new Map<string, { record: WattBoxDiscoveryRecord; timer: NodeJS.Timeout }>();
+    #socket: Socket | null = null;
+
+    constructor(opts: WattBoxDiscoveryOpts = {}) {
+        super();
+        this.#opts = opts;
+    }
+
+    /**
+     * The devices currently found.
+     * @returns The discovered devices
+     */
+    public get devices(): WattBoxDiscoveryRecord[] {
+        return Array.from(this.#devices.values(), x => x.record);
+    }
+
+    /**
+     * Start listening for announcements, and search for devices unless disabled.
+     * @throws If the SDDP port cannot be bound or the multicast group cannot be joined.
+     */
+    public async start(): Promise<void> {
+        if (this.#socket) {
+            return;
+        }
+
+        const socket = createSocket({ type: 'udp4', reuseAddr: true });
+        this.#socket = socket;
+
+        await new Promise<void>((resolve, reject) => {
+            socket.once('error', reject);
+            socket.bind(this.#opts.port ?? 1902, () => {
+                socket.removeListener('error', reject);
+                resolve();
+            });
+        }).catch((err: unknown) => {
+            this.#socket = null;
+            socket.close();
+            throw err;
+        });
+
+        socket.on('message', (message, remote) => this.#handleMessage(message.toString('utf8'), remote));
+        socket.on('error', err => this.emit('error', err));
+
+        try {
+            socket.addMembership(this.#opts.address ?? '239.255.255.250', this.#opts.interface);
+        }
+        catch (err) {
+            this.stop();
+            throw err;
+        }
+
+        if (this.#opts.search ?? true) {
+            this.search();
+        }
+    }
+
+    /**
+     * Stop listening, the devices found are kept without expiring.
+     */
+    public stop(): void {
+        this.#socket?.close();
+        this.#socket = null;
+
+        for (const device of this.#devices.values()) {
+            clearTimeout(device.timer);
+        }
+    }
+
+    /**
+     * Send an SDDP search, so devices respond without waiting for their next announcement.
+     */
+    public search(): void {
+        this.#socket?.send('SEARCH * SDDP/1.0\r\n\r\n', this.#opts.port ?? 1902, this.#opts.address ?? '239.255.255.250');
+    }
+
+    #handleMessage(message: string, remote: RemoteInfo): void {
+        const [startLine, ...lines] = message.split(/\r?\n/);
+        const headers = new Map<string, string>();
+        for (const line of lines) {
+            const separator = line.indexOf(':');
+            if (separator > 0) {
+                headers.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1'));
+            }
+        }
+
+        // Announcements are NOTIFY ALIVE or NOTIFY OFFLINE, search responses are 200 OK
+        const offline = /^NOTIFY\s+OFFLINE\b/i.test(startLine ?? '');
+        if (!offline && !/^NOTIFY\s+ALIVE\b/i.test(startLine ?? '') && !/^SDDP\/\S+\s+200\b/i.test(startLine ?? '')) {
+            return;
+        }
+
+        const type = headers.get('type') ?? '';
+        const model = headers.get('model') ?? type.replace(/^[^:]*:/, '');
+        if (!/wattbox/i.test(type) && !/^WB-?\d/i.test(model)) {
+            return;
+        }
+
+        // The From header is the announced address, the sender is used if it is missing
+        const ip = headers.get('from')?.replace(/:\d+$/, '') ?? remote.address;
+        const existing = this.#devices.get(ip);
+
+        if (offline) {
+            if (existing) {
+                clearTimeout(existing.timer);
+                this.#devices.delete(ip);
+                this.emit('lost', existing.record);
+            }
+
+            return;
+        }
+
+        // Details missing from a later announcement are kept from earlier ones
+        const maxAge = parseInt(headers.get('max-age') ?? '') || 1800;
+        const record: WattBoxDiscoveryRecord = {
+            ip,
+            hostname: headers.get('host') ?? existing?.record.hostname ?? '',
+            model,
+            serviceTag: headers.get('serial') ?? headers.get('service-tag') ?? existing?.record.serviceTag ?? null,
+            firmware: headers.get('firmware') ?? headers.get('firmware-version') ?? existing?.record.firmware ?? null,
+            type,
+            maxAge,
+            lastSeen: new Date(),
+            clientOpts: this.#opts.username !== undefined && this.#opts.password !== undefined
+                ? { host: ip, username: this.#opts.username, password: this.#opts.password }
+                : null
+        };
+
+        if (existing) {
+            clearTimeout(existing.timer);
+        }
+
+        const timer = setTimeout(() => {
+            this.#devices.delete(ip);
+            this.emit('lost', record);
+        }, maxAge * 1000);
+
+        this.#devices.set(ip, { record, timer });
+        this.emit(existing ? 'updated' : 'found', record);
+    }
+}
+
+/**
+ * Discover WattBox devices on the LAN, listening for SDDP announcements for a time window.
+ * @param opts - Discovery options
+ * @returns The devices found before the time window ended
+ * @throws If the SDDP port cannot be bound or the multicast group cannot be joined.
+ */
+export async function discoverWattBoxes(opts: WattBoxDiscoveryOpts = {}): Promise<WattBoxDiscoveryRecord[]> {
+    const discovery = new WattBoxDiscovery(opts);
+    discovery.on('error', () => undefined);
+
+    await discovery.start();
+    await new Promise(resolve => setTimeout(resolve, opts.timeout ?? 5000));
+    discovery.stop();
+
+    return discovery.devices;
+}
+
+export interface WattBoxDiscoveryEvents {
+    /** Emitted when a socket error occurs while listening. */
+    error: [err: Error];
+    /** Emitted when a device is found. */
+    found: [device: WattBoxDiscoveryRecord];
+    /** Emitted when a device announces it is going offline, or is not seen again within its max age. */
+    lost: [device: WattBoxDiscoveryRecord];
+    /** Emitted when a device that was already found announces itself again. */
+    updated: [device: WattBoxDiscoveryRecord];
+}
+
+export interface WattBoxDiscoveryOpts {
+    /** SDDP multicast address, default 239.255.255.250 */
+    address?: string;
+    /** Local interface address to join the multicast group on, default all interfaces */
+    interface?: string;
+    /** Login password to build client options for each device with, default none */
+    password?: string;
+    /** SDDP port, default 1902 */
+    port?: number;
+    /** Send a search when starting, default true */
+    search?: boolean;
+    /** Time to listen for in milliseconds when discovering, default 5000ms (5s) */
+    timeout?: number;
+    /** Login username to build client options for each device with, default none */
+    username?: string;
+}
+
+export interface WattBoxDiscoveryRecord {
+    /** The IP address of the device */
+    ip: string;
+    /** The announced hostname */
+    hostname: string;
+    /** The model, e.g. WB-800-IPVM-12 */
+    model: string;
+    /** The serial number or service tag, or null if not announced */
+    serviceTag: string | null;
+    /** The firmware version, or null if not announced */
+    firmware: string | null;
+    /** The SDDP device type */
+    type: string;
+    /** Seconds the announcement is valid for */
+    maxAge: number;
+    /** When the device last announced itself */
+    lastSeen: Date;
+    /** Client options to connect to the device, or null without a username and password */
+    clientOpts: WattBoxClientOpts | null;
+}
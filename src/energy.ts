@@ -0,0 +1,345 @@
+import { EventEmitter } from 'events';
+import { readFile, rename, writeFile } from 'fs/promises';
+import type { WattBoxClient } from './client.js';
+import type { WattBoxScheduleDay } from './schemas.js';
+
+const HOUR = 3600000;
+
+/**
+ * Samples power metrics through a {@link WattBoxClient} on an interval, and integrates
+ * watts over time into energy used per outlet and for the whole device.
+ * @remarks
+ * Energy is integrated between consecutive samples only. A failed sample, a disconnect,
+ * a restart, or samples further apart than the maximum gap start a new integration, so
+ * energy is never estimated across a gap. Energy is kept in hourly buckets, which are
+ * rolled up by local hour or day for export.
+ */
+export class WattBoxEnergyMeter extends EventEmitter<WattBoxEnergyMeterEvents> {
+    #client: WattBoxClient;
+    #opts: WattBoxEnergyMeterOpts;
+
+    #loading: Promise<void> | null = null;
+    #meters = new Map<string, WattBoxEnergyMeterState>();
+    #outletCount: number | null = null;
+    #pollLoop = 0;
+    #pollTimer: NodeJS.Timeout | null = null;
+    #running = false;
+
+    // Nothing is known about the power drawn while disconnected
+    #onDisconnected = () => {
+        for (const meter of this.#meters.values()) {
+            meter.last = null;
+        }
+    };
+
+    constructor(client: WattBoxClient, opts: WattBoxEnergyMeterOpts = {}) {
+        super();
+        this.#client = client;
+        this.#opts = opts;
+        this.#client.on('disconnected', this.#onDisconnected);
+    }
+
+    /**
+     * The energy used since the meter started, or since the store was created.
+     * @returns The total energy for the device and each outlet
+     */
+    public get totals(): WattBoxEnergyTotal[] {
+        return Array.from(this.#meters.entries(), ([key, meter]) => ({ outlet: this.#outlet(key), wh: meter.totalWh, kwh: meter.totalWh / 1000 }))
+            .sort((a, b) => (a.outlet ?? 0) - (b.outlet ?? 0));
+    }
+
+    /**
+     * Start sampling, the first sample runs immediately.
+     */
+    public start(): void {
+        if (this.#running) {
+            return;
+        }
+
+        this.#running = true;
+        this.#schedulePoll(0, ++this.#pollLoop);
+    }
+
+    /**
+     * Stop sampling, the next sample after starting again is not integrated with the last one.
+     */
+    public stop(): void {
+        this.#running = false;
+
+        if (this.#pollTimer) {
+            clearTimeout(this.#pollTimer);
+            this.#pollTimer = null;
+        }
+
+        for (const meter of this.#meters.values()) {
+            meter.last = null;
+        }
+    }
+
+    /**
+     * Stop sampling and stop tracking the client, the client is left connected.
+     */
+    public dispose(): void {
+        this.stop();
+        this.#client.removeListener('disconnected', this.#onDisconnected);
+    }
+
+    /**
+     * Sample the power metrics once, integrating energy since the previous sample and saving the store.
+     */
+    public async poll(): Promise<void> {
+        await this.load();
+
+        // Models without power metrics have nothing to meter
+        if (this.#client.capabilities?.powerMetrics === false) {
+            return;
+        }
+
+        const metrics = await this.#client.getPowerMetrics().catch(err => this.#pollError(err));
+        this.#sample('device', metrics?.watts ?? null);
+
+        if (this.#opts.outlets ?? true) {
+            this.#outletCount ??= await this.#client.getOutletCount().catch(err => this.#pollError(err));
+
+            for (let outlet = 1; outlet <= (this.#outletCount ?? 0); outlet++) {
+                const outletMetrics = await this.#client.getOutletPowerMetrics(outlet).catch(err => this.#pollError(err));
+                this.#sample(outlet.toString(), outletMetrics?.watts ?? null);
+            }
+        }
+
+        this.emit('energy', this.totals);
+
+        if (this.#opts.store) {
+            await this.save().catch(err => this.#pollError(err));
+        }
+    }
+
+    /**
+     * Load the totals from the store, once. Polling loads the store automatically.
+     * @remarks
+     * A store that cannot be read is never overwritten, every poll fails until the meter is recreated.
+     * @throws If the store exists but cannot be read.
+     */
+    public async load(): Promise<void> {
+        this.#loading ??= this.#read();
+        await this.#loading;
+    }
+
+    /**
+     * Save the totals to the store, replacing the file atomically.
+     */
+    public async save(): Promise<void> {
+        if (!this.#opts.store) {
+            return;
+        }
+
+        const store: WattBoxEnergyStore = { version: 1, meters: {} };
+        for (const [key, meter] of this.#meters) {
+            store.meters[key] = { totalWh: meter.totalWh, hours: Object.fromEntries(meter.hours) };
+        }
+
+        await writeFile(`${this.#opts.store}.tmp`, JSON.stringify(store));
+        await rename(`${this.#opts.store}.tmp`, this.#opts.store);
+    }
+
+    /**
+     * Roll up the energy used by local hour or day.
+     * @param period - The rollup period
+     * @param opts - Rollup options
+     * @returns The energy used in each period, for the device (outlet null) and each outlet, oldest first
+     */
+    public rollups(period: 'hour' | 'day', opts: WattBoxEnergyRollupOpts = {}): WattBoxEnergyRollup[] {
+        const from = opts.from?.getTime() ?? -Infinity;
+        const to = opts.to?.getTime() ?? Infinity;
+        const rollups = new Map<string, WattBoxEnergyRollup>();
+
+        for (const [key, meter] of this.#meters) {
+            for (const [hour, wh] of meter.hours) {
+                const time = new Date(hour);
+                if (time.getTime() < from || time.getTime() >= to) {
+                    continue;
+                }
+
+                const start = period === 'hour' ? time : new Date(time.getFullYear(), time.getMonth(), time.getDate());
+                const id = `${start.getTime()}:${key}`;
+                const cost = this.#cost(time, wh);
+
+                const rollup = rollups.get(id) ?? { start, outlet: this.#outlet(key), wh: 0, kwh: 0, cost: this.#opts.tariff ? 0 : null };
+                rollup.wh += wh;
+                rollup.kwh = rollup.wh / 1000;
+                rollup.cost = rollup.cost !== null ? rollup.cost + (cost ?? 0) : null;
+                rollups.set(id, rollup);
+            }
+        }
+
+        return Array.from(rollups.values()).sort((a, b) => a.start.getTime() - b.start.getTime() || (a.outlet ?? 0) - (b.outlet ?? 0));
+    }
+
+    /**
+     * Export the energy used by local hour or day.
+     * @param period - The rollup period
+     * @param format - CSV with a header row and local times, or a JSON array
+     * @param opts - Rollup options
+     * @returns The exported rollups, see {@link WattBoxEnergyMeter.rollups}
+     */
+    public export(period: 'hour' | 'day', format: 'csv' | 'json', opts: WattBoxEnergyRollupOpts = {}): string {
+        const rollups = this.rollups(period, opts);
+
+        if (format === 'json') {
+            return JSON.stringify(rollups, null, 2);
+        }
+
+        const rows = rollups.map(x => [this.#formatStart(x.start, period), x.outlet ?? 'device', x.wh.toFixed(3), x.kwh.toFixed(6), x.cost?.toFixed(4) ?? ''].join(','));
+        return ['start,outlet,wh,kwh,cost', ...rows].join('\n') + '\n';
+    }
+
+    async #read(): Promise<void> {
+        if (!this.#opts.store) {
+            return;
+        }
+
+        const text = await readFile(this.#opts.store, 'utf8').catch((err: NodeJS.ErrnoException) => {
+            if (err.code === 'ENOENT') {
+                return null;
+            }
+
+            throw err;
+        });
+
+        if (text === null) {
+            return;
+        }
+
+        const store = JSON.parse(text) as WattBoxEnergyStore;
+        for (const [key, meter] of Object.entries(store.meters)) {
+            this.#meters.set(key, { totalWh: meter.totalWh, hours: new Map(Object.entries(meter.hours)), last: null });
+        }
+    }
+
+    // A poll in flight when stopped and restarted belongs to the previous loop, which ends with it
+    #schedulePoll(delay: number, loop: number): void {
+        this.#pollTimer = setTimeout(() => {
+            this.poll().catch(err => this.#pollError(err)).finally(() => {
+                if (this.#running && loop === this.#pollLoop) {
+                    this.#schedulePoll(this.#opts.interval ?? 60000, loop);
+                }
+            });
+        }, delay);
+    }
+
+    #pollError(err: Error): null {
+        this.emit('pollError', err);
+        return null;
+    }
+
+    // Integrate with the trapezoidal rule, splitting the energy across the hours the interval spans
+    #sample(key: string, watts: number | null): void {
+        const meter = this.#meters.get(key) ?? { totalWh: 0, hours: new Map<string, number>(), last: null };
+        this.#meters.set(key, meter);
+
+        const time = Date.now();
+        const last = meter.last;
+        meter.last = watts !== null ? { time, watts } : null;
+
+        if (!last || watts === null || time <= last.time || time - last.time > (this.#opts.maxGap ?? (this.#opts.interval ?? 60000) * 3)) {
+            return;
+        }
+
+        const wattsAt = (t: number) => last.watts + (watts - last.watts) * (t - last.time) / (time - last.time);
+
+        for (let start = last.time; start < time;) {
+            const hour = Math.floor(start / HOUR) * HOUR;
+            const end = Math.min(time, hour + HOUR);
+            const wh = (wattsAt(start) + wattsAt(end)) / 2 * (end - start) / HOUR;
+
+            const id = new Date(hour).toISOString();
+            meter.hours.set(id, (meter.hours.get(id) ?? 0) + wh);
+            meter.totalWh += wh;
+            start = end;
+        }
+    }
+
+    #cost(hour: Date, wh: number): number | null {
+        const rate = this.#opts.tariff?.find(x => (x.days?.includes(hour.getDay()) ?? true) && hour.getHours() >= (x.from ?? 0) && hour.getHours() < (x.to ?? 24));
+        return rate ? rate.price * wh / 1000 : null;
+    }
+
+    #formatStart(start: Date, period: 'hour' | 'day'): string {
+        const pad = (value: number) => value.toString().padStart(2, '0');
+        const date = `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`;
+        return period === 'day' ? date : `${date} ${pad(start.getHours())}:00`;
+    }
+
+    #outlet(key: string): number | null {
+        return key === 'device' ? null : parseInt(key);
+    }
+}
+
+export interface WattBoxEnergyMeterEvents {
+    /** Emitted with the totals after every sample. */
+    energy: [totals: WattBoxEnergyTotal[]];
+    /** Emitted when getting metrics or saving the store fails during a poll. */
+    pollError: [err: Error];
+}
+
+export interface WattBoxEnergyMeterOpts {
+    /** Sample interval in milliseconds, default 60000ms (60s) */
+    interval?: number;
+    /** Maximum time between samples in milliseconds that is integrated, default 3 times the interval */
+    maxGap?: number;
+    /** Meter every outlet as well as the device, default true */
+    outlets?: boolean;
+    /** Path of a JSON file the totals are loaded from and saved to after every sample, default none */
+    store?: string;
+    /** Rates used to estimate the cost of energy in rollups, the first matching rate applies and hours without one have no cost, default none */
+    tariff?: WattBoxTariffRate[];
+}
+
+export interface WattBoxEnergyRollup {
+    /** The start of the local hour or day */
+    start: Date;
+    /** The outlet number (1-indexed), or null for the device */
+    outlet: number | null;
+    wh: number;
+    kwh: number;
+    /** The estimated cost, or null without a tariff */
+    cost: number | null;
+}
+
+export interface WattBoxEnergyRollupOpts {
+    /** Include energy used from this time, default all */
+    from?: Date;
+    /** Include energy used before this time, default all */
+    to?: Date;
+}
+
+export interface WattBoxEnergyTotal {
+    /** The outlet number (1-indexed), or null for the device */
+    outlet: number | null;
+    wh: number;
+    kwh: number;
+}
+
+export interface WattBoxTariffRate {
+    /** Price per kWh */
+    price: number;
+    /** Local hour the rate starts at, 0-23, default 0 */
+    from?: number;
+    /** Local hour the rate ends before, 1-24, default 24 */
+    to?: number;
+    /** The days of the week the rate applies on, default every day */
+    days?: WattBoxScheduleDay[];
+}
+
+interface WattBoxEnergyMeterState {
+    totalWh: number;
+    /** Energy used in Wh, by the start of each UTC hour as an ISO 8601 timestamp */
+    hours: Map<string, number>;
+    /** The previous sample, or null if the next sample starts a new integration */
+    last: { time: number; watts: number } | null;
+}
+
+interface WattBoxEnergyStore {
+    version: 1;
+    meters: Record<string, { totalWh: number; hours: Record<string, number> }>;
+}
@@ -0,0 +1,228 @@
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { WattBoxDevice } from './device.js';
+import type { WattBoxUPSMetrics } from './schemas.js';
+
+/**
+ * Serves metrics for one or more WattBox devices over HTTP in the Prometheus text format.
+ * @remarks
+ * Metrics are collected in the background on an interval, or on every scrape when
+ * `collectOnScrape` is set. Disconnected devices are skipped and collection is bounded
+ * by the scrape timeout, so a scrape never blocks on an offline WattBox.
+ */
+export class WattBoxExporter {
+    #opts: WattBoxExporterOpts;
+
+    #collectTimer: NodeJS.Timeout | null = null;
+    #running = false;
+    #devices = new Map<WattBoxDevice, { ups: WattBoxUPSMetrics | null; lastCollect: Date | null }>();
+    #server: Server;
+
+    constructor(opts: WattBoxExporterOpts = {}) {
+        this.#opts = opts;
+        this.#server = createServer((req, res) => {
+            this.#handleRequest(req, res).catch(() => res.writeHead(500).end());
+        });
+    }
+
+    /**
+     * The port the exporter is listening on.
+     * @returns The listening port number
+     */
+    public get port(): number {
+        const address = this.#server.address();
+        return address && typeof address === 'object' ? address.port : this.#opts.port ?? 9742;
+    }
+
+    /**
+     * Add a device to export metrics for.
+     * @param device - The WattBox device
+     */
+    public addDevice(device: WattBoxDevice): void {
+        if (!this.#devices.has(device)) {
+            this.#devices.set(device, { ups: null, lastCollect: null });
+        }
+    }
+
+    /**
+     * Remove a device from the exported metrics.
+     * @param device - The WattBox device
+     */
+    public removeDevice(device: WattBoxDevice): void {
+        this.#devices.delete(device);
+    }
+
+    /**
+     * Start listening for scrapes, and collecting metrics in the background unless collecting on scrape.
+     */
+    public async listen(): Promise<void> {
+        await new Promise<void>((resolve, reject) => {
+            this.#server.once('error', reject);
+            this.#server.listen(this.#opts.port ?? 9742, this.#opts.host, () => {
+                this.#server.removeListener('error', reject);
+                resolve();
+            });
+        });
+
+        if (!this.#opts.collectOnScrape) {
+            this.#running = true;
+
+            const collect = () => {
+                this.collect().finally(() => {
+                    // Closed while collecting
+                    if (this.#running) {
+                        this.#collectTimer = setTimeout(collect, this.#opts.interval ?? 60000);
+                    }
+                });
+            };
+
+            collect();
+        }
+    }
+
+    /**
+     * Stop listening and collecting metrics.
+     */
+    public close(): Promise<void> {
+        this.#running = false;
+
+        if (this.#collectTimer) {
+            clearTimeout(this.#collectTimer);
+            this.#collectTimer = null;
+        }
+
+        return new Promise(resolve => this.#server.close(() => resolve()));
+    }
+
+    /**
+     * Collect metrics from all connected devices, failures leave the last known metrics in place.
+     */
+    public async collect(): Promise<void> {
+        await Promise.all(Array.from(this.#devices.entries(), async ([device, cache]) => {
+            if (!device.client.connected) {
+                return;
+            }
+
+            try {
+                if (device.snapshot) {
+                    await device.refreshPowerMetrics();
+                }
+                else {
+                    await device.sync();
+                }
+
+                const upsConnected = await device.client.getUPSConnected().catch(() => false);
+                cache.ups = upsConnected ? await device.client.getUPSMetrics().catch(() => null) : null;
+                cache.lastCollect = new Date();
+            }
+            catch {
+                // Keep the last known metrics
+            }
+        }));
+    }
+
+    /**
+     * Render the last collected metrics in the Prometheus text format.
+     * @returns The metrics text
+     */
+    public metrics(): string {
+        const families = new Map<string, { help: string; samples: string[] }>();
+        const gauge = (name: string, help: string, labels: Record<string, string>, value: number | boolean) => {
+            let family = families.get(name);
+            if (!family) {
+                family = { help, samples: [] };
+                families.set(name, family);
+            }
+
+            const labelText = Object.entries(labels).map(([k, v]) => `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`).join(',');
+            family.samples.push(`${name}{${labelText}} ${typeof value === 'boolean' ? (value ? 1 : 0) : value}`);
+        };
+
+        for (const [device, cache] of this.#devices) {
+            const snapshot = device.snapshot;
+            const labels = { host: device.client.host, model: snapshot?.model ?? '', service_tag: snapshot?.serviceTag ?? '' };
+
+            gauge('wattbox_up', 'Whether the client is connected and logged in to the WattBox', labels, device.client.connected);
+
+            if (cache.lastCollect) {
+                gauge('wattbox_last_collect_timestamp_seconds', 'When metrics were last collected from the WattBox', labels, cache.lastCollect.getTime() / 1000);
+            }
+
+            if (!snapshot) {
+                continue;
+            }
+
+            gauge('wattbox_info', 'WattBox device information', { ...labels, firmware: snapshot.firmware }, 1);
+
+            if (snapshot.powerMetrics) {
+                gauge('wattbox_current_amps', 'Total current in amps', labels, snapshot.powerMetrics.amps);
+                gauge('wattbox_power_watts', 'Total power in watts', labels, snapshot.powerMetrics.watts);
+                gauge('wattbox_voltage_volts', 'Voltage in volts', labels, snapshot.powerMetrics.volts);
+                gauge('wattbox_safe_voltage', 'Whether the voltage is in the safe range', labels, snapshot.powerMetrics.safeVoltageStatus);
+            }
+
+            for (const outlet of snapshot.outlets) {
+                const outletLabels = { ...labels, outlet: outlet.outlet.toString(), outlet_name: outlet.name };
+                gauge('wattbox_outlet_on', 'Whether the outlet is on', outletLabels, outlet.on);
+
+                if (outlet.powerMetrics) {
+                    gauge('wattbox_outlet_current_amps', 'Outlet current in amps', outletLabels, outlet.powerMetrics.amps);
+                    gauge('wattbox_outlet_power_watts', 'Outlet power in watts', outletLabels, outlet.powerMetrics.watts);
+                    gauge('wattbox_outlet_voltage_volts', 'Outlet voltage in volts', outletLabels, outlet.powerMetrics.volts);
+                }
+            }
+
+            if (cache.ups) {
+                gauge('wattbox_ups_battery_charge_percent', 'UPS battery charge percentage', labels, cache.ups.batteryCharge);
+                gauge('wattbox_ups_battery_load_percent', 'UPS battery load percentage', labels, cache.ups.batteryLoad);
+                gauge('wattbox_ups_battery_healthy', 'Whether the UPS battery health is good', labels, cache.ups.batteryHealthy);
+                gauge('wattbox_ups_battery_runtime_minutes', 'UPS battery runtime in minutes', labels, cache.ups.batteryRuntime);
+                gauge('wattbox_ups_power_lost', 'Whether the UPS lost input power', labels, cache.ups.powerLost);
+                gauge('wattbox_ups_alarm_enabled', 'Whether the UPS alarm is enabled', labels, cache.ups.alarmEnabled);
+                gauge('wattbox_ups_alarm_muted', 'Whether the UPS alarm is muted', labels, cache.ups.alarmMuted);
+            }
+        }
+
+        return Array.from(families.entries(), ([name, family]) => [
+            `# HELP ${name} ${family.help}`,
+            `# TYPE ${name} gauge`,
+            ...family.samples
+        ].join('\n')).join('\n') + '\n';
+    }
+
+    async #handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method !== 'GET' || new URL(req.url ?? '/', 'http://localhost').pathname !== (this.#opts.path ?? '/metrics')) {
+            res.writeHead(404).end();
+            return;
+        }
+
+        if (this.#opts.collectOnScrape) {
+            let onTimeout: NodeJS.Timeout | undefined;
+            await Promise.race([
+                this.collect(),
+                new Promise<void>((resolve) => {
+                    onTimeout = setTimeout(resolve, this.#opts.scrapeTimeout ?? 5000);
+                })
+            ]);
+            clearTimeout(onTimeout);
+        }
+
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(this.metrics());
+    }
+}
+
+export interface WattBoxExporterOpts {
+    /** Host to listen on, default all interfaces */
+    host?: string;
+    /** Port to listen on, default 9742 */
+    port?: number;
+    /** Path metrics are served on, default /metrics */
+    path?: string;
+    /** Collect metrics on every scrape instead of in the background, default false */
+    collectOnScrape?: boolean;
+    /** Background collection interval in milliseconds, default 60000ms (60s) */
+    interval?: number;
+    /** Maximum time to wait for collection on scrape in milliseconds, default 5000ms (5s) */
+    scrapeTimeout?: number;
+}
@@ -0,0 +1,189 @@
+import { EventEmitter } from 'events';
+import { WattBoxArgumentError, WattBoxClient } from './client.js';
+import { WattBoxDevice } from './device.js';
+import type { WattBoxClientOpts, WattBoxControlOpts } from './client.js';
+import type { WattBoxOutletChange } from './device.js';
+import type { WattBoxOutletAction } from './schemas.js';
+
+/**
+ * Manages connections to many WattBox devices, with fan-out queries and fleet-wide outlet addressing.
+ * @remarks
+ * Each device is tracked with a {@link WattBoxDevice}. Queries run with a concurrency limit and
+ * return a result per device, so an offline device does not fail the batch. Device events are
+ * re-emitted tagged with the device host and service tag.
+ */
+export class WattBoxFleet extends EventEmitter<WattBoxFleetEvents> {
+    #opts: WattBoxFleetOpts;
+    #devices: WattBoxDevice[];
+
+    constructor(clients: WattBoxClientOpts[], opts: WattBoxFleetOpts = {}) {
+        super();
+        this.#opts = opts;
+        this.#devices = clients.map(x => new WattBoxDevice(new WattBoxClient(x)));
+
+        for (const device of this.#devices) {
+            device.client.on('ready', () => this.emit('ready', this.#tag(device)));
+            device.client.on('outletStatus', outlets => this.emit('outletStatus', this.#tag(device), outlets));
+            device.on('outletChanged', change => this.emit('outletChanged', this.#tag(device), change));
+            device.on('syncError', err => this.emit('syncError', this.#tag(device), err));
+        }
+    }
+
+    /**
+     * The devices in the fleet.
+     * @returns The WattBox devices
+     */
+    public get devices(): WattBoxDevice[] {
+        return [...this.#devices];
+    }
+
+    /**
+     * Connect to every device, devices that fail to connect keep reconnecting in the background.
+     * @returns The connection result for each device
+     */
+    public async connect(): Promise<WattBoxFleetResult<void>[]> {
+        return this.query(device => device.client.connect());
+    }
+
+    /**
+     * Disconnect from every device.
+     */
+    public async disconnect(): Promise<void> {
+        await Promise.all(this.#devices.map(x => x.client.disconnect()));
+    }
+
+    /**
+     * Run a query against every device, or the given devices, with a concurrency limit.
+     * @param query - The query to run for each device
+     * @param devices - The devices to query, default every device
+     * @returns The query result for each device, in device order
+     */
+    public async query<T>(query: (device: WattBoxDevice) => Promise<T>, devices: WattBoxDevice[] = this.#devices): Promise<WattBoxFleetResult<T>[]> {
+        const results: WattBoxFleetResult<T>[] = new Array(devices.length);
+        let next = 0;
+
+        const worker = async () => {
+            while (next < devices.length) {
+                const index = next++;
+                const device = devices[index];
+                if (!device) {
+                    continue;
+                }
+
+                try {
+                    results[index] = { ...this.#tag(device), ok: true, value: await query(device) };
+                }
+                catch (err) {
+                    results[index] = { ...this.#tag(device), ok: false, error: err instanceof Error ? err : new Error(String(err)) };
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.max(1, Math.min(this.#opts.concurrency ?? 8, devices.length)) }, worker));
+        return results;
+    }
+
+    /**
+     * Resolve an outlet address to outlets across the fleet.
+     * @param address - An outlet name across the fleet, or `device:outlet` where the device is a host or
+     * service tag and the outlet is a number (1-indexed) or name
+     * @returns The matching devices and outlet numbers
+     */
+    public resolveOutlets(address: string): WattBoxFleetOutlet[] {
+        const separator = address.lastIndexOf(':');
+        const deviceId = separator >= 0 ? address.slice(0, separator) : null;
+        const outletId = separator >= 0 ? address.slice(separator + 1) : address;
+
+        const devices = deviceId === null
+            ? this.#devices
+            : this.#devices.filter(x => x.client.host === deviceId || x.snapshot?.serviceTag === deviceId);
+
+        return devices.flatMap((device) => {
+            if (deviceId !== null && /^\d+$/.test(outletId)) {
+                return [{ device, outlet: parseInt(outletId) }];
+            }
+
+            return (device.snapshot?.outlets ?? [])
+                .filter(x => x.name.toLowerCase() === outletId.toLowerCase())
+                .map(x => ({ device, outlet: x.outlet }));
+        });
+    }
+
+    /**
+     * Execute an action on every outlet matching an address.
+     * @param address - The outlet address, see {@link WattBoxFleet.resolveOutlets}
+     * @param action - The action to perform on the outlets (OFF, ON, TOGGLE, RESET)
+     * @param opts - Control options
+     * @returns The result for each matching outlet
+     * @throws {@link WattBoxArgumentError} If no outlets match the address.
+     */
+    public async setOutletAction(address: string, action: WattBoxOutletAction, opts: WattBoxControlOpts = {}): Promise<WattBoxFleetResult<number>[]> {
+        const outlets = this.resolveOutlets(address);
+        if (outlets.length === 0) {
+            throw new WattBoxArgumentError('Unknown Outlet');
+        }
+
+        const devices = [...new Set(outlets.map(x => x.device))];
+        const results = await this.query(async (device) => {
+            for (const outlet of outlets.filter(x => x.device === device)) {
+                await device.client.setOutletAction(outlet.outlet, action, opts);
+            }
+        }, devices);
+
+        return outlets.map((outlet) => {
+            const result = results[devices.indexOf(outlet.device)] as WattBoxFleetResult<void>;
+            return result.ok ? { ...result, value: outlet.outlet } : result;
+        });
+    }
+
+    /**
+     * Get a summary of the connection health of the fleet.
+     * @returns The fleet health summary
+     */
+    public health(): WattBoxFleetHealth {
+        const devices = this.#devices.map(x => ({ ...this.#tag(x), model: x.snapshot?.model ?? '', connected: x.client.connected }));
+        const connected = devices.filter(x => x.connected).length;
+        return { total: devices.length, connected, disconnected: devices.length - connected, devices };
+    }
+
+    #tag(device: WattBoxDevice): WattBoxFleetTag {
+        return { host: device.client.host, serviceTag: device.snapshot?.serviceTag ?? '' };
+    }
+}
+
+export interface WattBoxFleetEvents {
+    /** Emitted when an outlet on a device turns on or off. */
+    outletChanged: [device: WattBoxFleetTag, change: WattBoxOutletChange];
+    /** Emitted when outlet status changes on a device. */
+    outletStatus: [device: WattBoxFleetTag, outlets: boolean[]];
+    /** Emitted when a device is connected or reconnected. */
+    ready: [device: WattBoxFleetTag];
+    /** Emitted when a device fails to sync. */
+    syncError: [device: WattBoxFleetTag, err: Error];
+}
+
+export interface WattBoxFleetHealth {
+    total: number;
+    connected: number;
+    disconnected: number;
+    devices: (WattBoxFleetTag & { model: string; connected: boolean })[];
+}
+
+export interface WattBoxFleetOpts {
+    /** Maximum number of devices queried at once, default 8 */
+    concurrency?: number;
+}
+
+export interface WattBoxFleetOutlet {
+    device: WattBoxDevice;
+    /** The outlet number (1-indexed) */
+    outlet: number;
+}
+
+export type WattBoxFleetResult<T> = WattBoxFleetTag & ({ ok: true; value: T } | { ok: false; error: Error });
+
+export interface WattBoxFleetTag {
+    host: string;
+    /** The device service tag, empty until the device is synced */
+    serviceTag: string;
+}
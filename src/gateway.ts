@@ -0,0 +1,489 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { createServer } from 'http';
+import { WattBoxError } from './client.js';
+import { WattBoxMonitor } from './monitor.js';
+import { WattBoxOutletAction, WattBoxOutletMode } from './schemas.js';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { Duplex } from 'stream';
+import type { WattBoxClient, WattBoxControlOpts } from './client.js';
+import type { WattBoxOutletPowerMetrics, WattBoxPowerMetrics, WattBoxUPSMetrics } from './schemas.js';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 65536;
+
+/**
+ * Serves a JSON REST API and a WebSocket stream for one or more WattBox devices, so many
+ * tools can share a single protocol session per device.
+ * @remarks
+ * The WattBox allows 10 simultaneous protocol connections, so each device is reached through
+ * one {@link WattBoxClient} however many tools use the gateway. Requests are authorized with
+ * a bearer token, and only control tokens may send control commands, which are recorded in the
+ * client audit log with the token name as the actor.
+ */
+export class WattBoxGateway {
+    #opts: WattBoxGatewayOpts;
+
+    #devices = new Map<string, { client: WattBoxClient; monitor: WattBoxMonitor; onOutletStatus: (outlets: boolean[]) => void }>();
+    #listening = false;
+    #server: Server;
+    #streams = new Set<Duplex>();
+
+    constructor(opts: WattBoxGatewayOpts) {
+        this.#opts = opts;
+        this.#server = createServer((req, res) => {
+            this.#handleRequest(req, res).catch(err => this.#sendError(res, err));
+        });
+        this.#server.on('upgrade', (req: IncomingMessage, socket: Duplex) => this.#handleUpgrade(req, socket));
+    }
+
+    /**
+     * The port the gateway is listening on.
+     * @returns The listening port number
+     */
+    public get port(): number {
+        const address = this.#server.address();
+        return address && typeof address === 'object' ? address.port : this.#opts.port ?? 9743;
+    }
+
+    /**
+     * Add a device to the gateway, addressed by the client host.
+     * @param client - The WattBox client, connected by the caller
+     */
+    public addDevice(client: WattBoxClient): void {
+        if (this.#devices.has(client.host)) {
+            return;
+        }
+
+        const host = client.host;
+        const monitor = new WattBoxMonitor(client, { interval: this.#opts.interval ?? 60000 });
+        monitor.on('powerMetrics', metrics => this.#broadcast({ type: 'powerMetrics', host, metrics }));
+        monitor.on('outletPowerMetrics', metrics => this.#broadcast({ type: 'outletPowerMetrics', host, metrics }));
+        monitor.on('upsMetrics', metrics => this.#broadcast({ type: 'upsMetrics', host, metrics }));
+
+        const onOutletStatus = (outlets: boolean[]) => this.#broadcast({ type: 'outletStatus', host, outlets });
+        client.on('outletStatus', onOutletStatus);
+
+        this.#devices.set(host, { client, monitor, onOutletStatus });
+
+        if (this.#listening && this.#opts.interval !== 0) {
+            monitor.start();
+        }
+    }
+
+    /**
+     * Remove a device from the gateway, the client is left connected.
+     * @param client - The WattBox client
+     */
+    public removeDevice(client: WattBoxClient): void {
+        const device = this.#devices.get(client.host);
+        if (device?.client !== client) {
+            return;
+        }
+
+        device.monitor.stop();
+        client.removeListener('outletStatus', device.onOutletStatus);
+        this.#devices.delete(client.host);
+    }
+
+    /**
+     * Start listening for requests, and polling metrics for the stream.
+     */
+    public async listen(): Promise<void> {
+        await new Promise<void>((resolve, reject) => {
+            this.#server.once('error', reject);
+            this.#server.listen(this.#opts.port ?? 9743, this.#opts.host, () => {
+                this.#server.removeListener('error', reject);
+                resolve();
+            });
+        });
+
+        this.#listening = true;
+        if (this.#opts.interval !== 0) {
+            this.#devices.forEach(x => x.monitor.start());
+        }
+    }
+
+    /**
+     * Stop listening, close every stream, and stop polling metrics. Clients are left connected.
+     */
+    public close(): Promise<void> {
+        this.#listening = false;
+        this.#devices.forEach(x => x.monitor.stop());
+
+        for (const socket of this.#streams) {
+            socket.end(encodeWebSocketFrame(0x8, Buffer.from([0x03, 0xE9])));
+        }
+
+        this.#streams.clear();
+        return new Promise(resolve => this.#server.close(() => resolve()));
+    }
+
+    async #handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const token = this.#authorize(req.headers.authorization?.replace(/^Bearer\s+/i, ''));
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const [root, host, resource, outletId, property, ...rest] = this.#parsePath(url.pathname);
+        const route = `${req.method} /${[root, host && ':host', resource, outletId && ':outlet', property, ...rest].filter(x => x).join('/')}`;
+
+        if (route === 'GET /devices') {
+            this.#send(res, 200, Array.from(this.#devices.values(), x => ({ host: x.client.host, state: x.client.state, connected: x.client.connected })));
+            return;
+        }
+
+        const client = host !== undefined ? this.#devices.get(host)?.client : undefined;
+        if (root !== 'devices' || !client) {
+            throw new GatewayError(404, 'NOT_FOUND', 'Not Found');
+        }
+
+        const outlet = outletId !== undefined ? parseInt(outletId) : NaN;
+        const control: WattBoxControlOpts = {};
+        const override = this.#header(req, 'x-wattbox-override');
+        if (token.name !== undefined) {
+            control.actor = token.name;
+        }
+        if (override !== undefined) {
+            control.override = override;
+        }
+
+        switch (route) {
+            case 'GET /devices/:host':
+                this.#send(res, 200, {
+                    host: client.host,
+                    state: client.state,
+                    model: client.capabilities?.model ?? await client.getModel(),
+                    firmware: client.capabilities?.firmware ?? await client.getFirmware(),
+                    serviceTag: await client.getServiceTag(),
+                    hostname: await client.getHostname(),
+                    outletCount: client.capabilities?.outletCount ?? await client.getOutletCount()
+                });
+                return;
+            case 'GET /devices/:host/outlets': {
+                const names = await client.getOutletNames();
+                const status = await client.getOutletStatus();
+                this.#send(res, 200, status.map((on, i) => ({ outlet: i + 1, name: names[i] ?? '', on })));
+                return;
+            }
+            case 'GET /devices/:host/outlets/:outlet/power':
+                this.#send(res, 200, await client.getOutletPowerMetrics(outlet));
+                return;
+            case 'GET /devices/:host/power':
+                this.#send(res, 200, await client.getPowerMetrics());
+                return;
+            case 'GET /devices/:host/ups':
+                this.#send(res, 200, { connected: await client.getUPSConnected(), metrics: await client.getUPSMetrics().catch(() => null) });
+                return;
+        }
+
+        if (req.method !== 'POST' && req.method !== 'PUT') {
+            throw new GatewayError(404, 'NOT_FOUND', 'Not Found');
+        }
+
+        if (token.permission !== 'control') {
+            throw new GatewayError(403, 'FORBIDDEN', 'Control Permission Required');
+        }
+
+        const body = await this.#readBody(req);
+
+        switch (route) {
+            case 'POST /devices/:host/outlets/:outlet/action': {
+                const action = typeof body.action === 'string' ? WattBoxOutletAction[body.action.toUpperCase() as keyof typeof WattBoxOutletAction] : undefined;
+                if (action === undefined) {
+                    throw new GatewayError(400, 'INVALID_ARGUMENT', 'Invalid Action');
+                }
+
+                await client.setOutletAction(outlet, action, control);
+                break;
+            }
+            case 'PUT /devices/:host/outlets/:outlet/mode': {
+                const mode = typeof body.mode === 'string' ? WattBoxOutletMode[body.mode.toUpperCase().replace('-', '_') as keyof typeof WattBoxOutletMode] : undefined;
+                if (mode === undefined) {
+                    throw new GatewayError(400, 'INVALID_ARGUMENT', 'Invalid Mode');
+                }
+
+                await client.setOutletMode(outlet, mode, control);
+                break;
+            }
+            case 'PUT /devices/:host/outlets/:outlet/name':
+                if (typeof body.name !== 'string') {
+                    throw new GatewayError(400, 'INVALID_ARGUMENT', 'Invalid Outlet Name');
+                }
+
+                await client.setOutletName(outlet, body.name, control);
+                break;
+            case 'PUT /devices/:host/outlets/:outlet/delay':
+                if (typeof body.delay !== 'number') {
+                    throw new GatewayError(400, 'INVALID_ARGUMENT', 'Invalid Delay');
+                }
+
+                await client.setOutletPowerOnDelay(outlet, body.delay, control);
+                break;
+            default:
+                throw new GatewayError(404, 'NOT_FOUND', 'Not Found');
+        }
+
+        this.#send(res, 200, { ok: true });
+    }
+
+    // Upgrade to a WebSocket streaming device events, browsers cannot set headers so the token may be a query parameter
+    #handleUpgrade(req: IncomingMessage, socket: Duplex): void {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const key = this.#header(req, 'sec-websocket-key');
+
+        try {
+            this.#authorize(req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? url.searchParams.get('token') ?? undefined);
+        }
+        catch {
+            socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+            return;
+        }
+
+        if (url.pathname !== '/stream' || !key || this.#header(req, 'upgrade')?.toLowerCase() !== 'websocket') {
+            socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+            return;
+        }
+
+        const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+        socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+        this.#streams.add(socket);
+
+        let buffer = Buffer.alloc(0);
+        socket.on('data', (data: Buffer) => {
+            buffer = Buffer.concat([buffer, data]);
+
+            for (let frame = decodeWebSocketFrame(buffer); frame; frame = decodeWebSocketFrame(buffer)) {
+                buffer = buffer.subarray(frame.length);
+
+                // Streams are one-way, so only control frames are handled
+                if (frame.opcode === 0x8 || frame.payload === null) {
+                    this.#streams.delete(socket);
+                    socket.end(encodeWebSocketFrame(0x8, frame.payload?.subarray(0, 2) ?? Buffer.from([0x03, 0xEA])));
+                    return;
+                }
+
+                if (frame.opcode === 0x9) {
+                    socket.write(encodeWebSocketFrame(0xA, frame.payload));
+                }
+            }
+
+            if (buffer.length > MAX_PAYLOAD + 14) {
+                this.#streams.delete(socket);
+                socket.destroy();
+            }
+        });
+
+        socket.on('close', () => this.#streams.delete(socket));
+        socket.on('error', () => this.#streams.delete(socket));
+    }
+
+    #broadcast(message: WattBoxGatewayMessage): void {
+        const frame = encodeWebSocketFrame(0x1, Buffer.from(JSON.stringify(message)));
+        for (const socket of this.#streams) {
+            socket.write(frame);
+        }
+    }
+
+    #authorize(token: string | undefined): WattBoxGatewayToken {
+        // Digests have the same length, so tokens of any length are compared in constant time
+        const digest = (value: string) => createHash('sha256').update(value).digest();
+        const match = token !== undefined ? this.#opts.tokens.find(x => timingSafeEqual(digest(x.token), digest(token))) : undefined;
+        if (!match) {
+            throw new GatewayError(401, 'UNAUTHORIZED', 'Unauthorized');
+        }
+
+        return match;
+    }
+
+    #header(req: IncomingMessage, name: string): string | undefined {
+        const value = req.headers[name];
+        return Array.isArray(value) ? value[0] : value;
+    }
+
+    async #readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+        let text = '';
+        for await (const chunk of req) {
+            text += String(chunk);
+            if (text.length > MAX_PAYLOAD) {
+                throw new GatewayError(413, 'PAYLOAD_TOO_LARGE', 'Payload Too Large');
+            }
+        }
+
+        try {
+            const body: unknown = JSON.parse(text || '{}');
+            if (typeof body === 'object' && body !== null && !Array.isArray(body)) {
+                return body as Record<string, unknown>;
+            }
+        }
+        catch {
+            // Rejected below
+        }
+
+        throw new GatewayError(400, 'INVALID_ARGUMENT', 'Invalid JSON Body');
+    }
+
+    #parsePath(pathname: string): string[] {
+        try {
+            return pathname.split('/').filter(x => x.length > 0).map(decodeURIComponent);
+        }
+        catch {
+            throw new GatewayError(400, 'INVALID_ARGUMENT', 'Invalid Path');
+        }
+    }
+
+    #send(res: ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+        res.end(JSON.stringify(body));
+    }
+
+    #sendError(res: ServerResponse, err: unknown): void {
+        if (res.headersSent) {
+            res.destroy();
+            return;
+        }
+
+        if (err instanceof GatewayError) {
+            this.#send(res, err.status, { error: { code: err.code, message: err.message } });
+            return;
+        }
+
+        if (err instanceof WattBoxError) {
+            const status = { ERROR: 500, AUTH: 502, DEVICE: 502, INVALID_ARGUMENT: 400, NOT_CONNECTED: 503, PARSE: 502, PROTECTED: 403, TIMEOUT: 504, UNSUPPORTED: 501 }[err.code];
+            this.#send(res, status, { error: { code: err.code, message: err.message } });
+            return;
+        }
+
+        this.#send(res, 500, { error: { code: 'ERROR', message: 'Internal Error' } });
+    }
+}
+
+/** An HTTP error response, with the error code and message sent as JSON. */
+class GatewayError extends Error {
+    public readonly status: number;
+    public readonly code: string;
+
+    constructor(status: number, code: string, message: string) {
+        super(message);
+        this.status = status;
+        this.code = code;
+    }
+}
+
+/**
+ * Encode an unmasked, unfragmented WebSocket frame, as sent by a server.
+ * @param opcode - The frame opcode
+ * @param payload - The frame payload
+ * @returns The encoded frame
+ */
+function encodeWebSocketFrame(opcode: number, payload: Buffer): Buffer {
+    const header = payload.length < 126 ? Buffer.alloc(2) : payload.length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+    header.writeUInt8(0x80 | opcode, 0);
+
+    if (payload.length < 126) {
+        header.writeUInt8(payload.length, 1);
+    }
+    else if (payload.length < 65536) {
+        header.writeUInt8(126, 1);
+        header.writeUInt16BE(payload.length, 2);
+    }
+    else {
+        header.writeUInt8(127, 1);
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * Decode the first masked WebSocket frame, as sent by a client.
+ * @param buffer - The received data
+ * @returns The frame opcode, unmasked payload and encoded length, a null payload if the frame is invalid, or null if the frame is incomplete
+ */
+function decodeWebSocketFrame(buffer: Buffer): { opcode: number; payload: Buffer | null; length: number } | null {
+    if (buffer.length < 2) {
+        return null;
+    }
+
+    const opcode = buffer.readUInt8(0) & 0x0F;
+    const masked = (buffer.readUInt8(1) & 0x80) !== 0;
+    let length = buffer.readUInt8(1) & 0x7F;
+    let offset = 2;
+
+    if (length === 126) {
+        if (buffer.length < 4) {
+            return null;
+        }
+
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+    }
+    else if (length === 127) {
+        if (buffer.length < 10) {
+            return null;
+        }
+
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+    }
+
+    // Clients must mask every frame
+    if (!masked || length > MAX_PAYLOAD) {
+        return { opcode, payload: null, length: buffer.length };
+    }
+
+    if (buffer.length < offset + 4 + length) {
+        return null;
+    }
+
+    const mask = buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) {
+        payload.writeUInt8(payload.readUInt8(i) ^ mask.readUInt8(i % 4), i);
+    }
+
+    return { opcode, payload, length: offset + 4 + length };
+}
+
+export interface WattBoxGatewayOpts {
+    /** Tokens authorized to use the gateway */
+    tokens: WattBoxGatewayToken[];
+    /** Host to listen on, default all interfaces */
+    host?: string;
+    /** Interval to poll power and UPS metrics for the stream in milliseconds, or 0 to stream outlet status only, default 60000ms (60s) */
+    interval?: number;
+    /** Port to listen on, default 9743 */
+    port?: number;
+}
+
+export interface WattBoxGatewayToken {
+    /** The bearer token */
+    token: string;
+    /** Read-only tokens can query devices and stream events, control tokens can also send control commands */
+    permission: 'read' | 'control';
+    /** Name recorded as the actor in the client audit log, default none */
+    name?: string;
+}
+
+/** A message sent on the WebSocket stream. */
+export type WattBoxGatewayMessage = WattBoxGatewayOutletStatusMessage | WattBoxGatewayPowerMetricsMessage | WattBoxGatewayOutletPowerMetricsMessage | WattBoxGatewayUPSMetricsMessage;
+
+export interface WattBoxGatewayOutletStatusMessage {
+    type: 'outletStatus';
+    host: string;
+    outlets: boolean[];
+}
+
+export interface WattBoxGatewayPowerMetricsMessage {
+    type: 'powerMetrics';
+    host: string;
+    metrics: WattBoxPowerMetrics;
+}
+
+export interface WattBoxGatewayOutletPowerMetricsMessage {
+    type: 'outletPowerMetrics';
+    host: string;
+    metrics: WattBoxOutletPowerMetrics[];
+}
+
+export interface WattBoxGatewayUPSMetricsMessage {
+    type: 'upsMetrics';
+    host: string;
+    metrics: WattBoxUPSMetrics;
+}
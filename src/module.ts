@@ -1,2 +1,13 @@
 export * from './client.js';
+export * from './codec.js';
+export * from './device.js';
+export * from './discovery.js';
+export * from './energy.js';
+export * from './exporter.js';
+export * from './fleet.js';
+export * from './gateway.js';
+export * from './monitor.js';
 export * from './schemas.js';
+export * from './sequencer.js';
+export * from './simulator.js';
+export * from './transport.js';
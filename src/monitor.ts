@@ -0,0 +1,212 @@
+import { EventEmitter } from 'events';
+import { WattBoxAlarmType } from './schemas.js';
+import type { WattBoxClient } from './client.js';
+import type { WattBoxAlarm, WattBoxOutletPowerMetrics, WattBoxPowerMetrics, WattBoxUPSMetrics } from './schemas.js';
+
+/**
+ * Polls power and UPS metrics through a {@link WattBoxClient} on an interval,
+ * and raises alarms when thresholds are crossed.
+ * @remarks
+ * Numeric alarms clear once the value is back inside the threshold by the hysteresis
+ * margin, and every alarm clears only after a number of consecutive good samples.
+ */
+export class WattBoxMonitor extends EventEmitter<WattBoxMonitorEvents> {
+    #client: WattBoxClient;
+    #opts: WattBoxMonitorOpts;
+
+    #alarms = new Map<string, { alarm: WattBoxAlarm; goodSamples: number }>();
+    #outletCount: number | null = null;
+    #pollTimer: NodeJS.Timeout | null = null;
+    #pollLoop = 0;
+    #running = false;
+
+    constructor(client: WattBoxClient, opts: WattBoxMonitorOpts = {}) {
+        super();
+        this.#client = client;
+        this.#opts = opts;
+    }
+
+    /**
+     * The currently active alarms.
+     * @returns The active alarms
+     */
+    public get alarms(): WattBoxAlarm[] {
+        return Array.from(this.#alarms.values(), x => x.alarm);
+    }
+
+    /**
+     * Start polling, the first poll runs immediately.
+     */
+    public start(): void {
+        if (this.#running) {
+            return;
+        }
+
+        this.#running = true;
+        this.#schedulePoll(0, ++this.#pollLoop);
+    }
+
+    /**
+     * Stop polling, active alarms are kept.
+     */
+    public stop(): void {
+        this.#running = false;
+
+        if (this.#pollTimer) {
+            clearTimeout(this.#pollTimer);
+            this.#pollTimer = null;
+        }
+    }
+
+    /**
+     * Poll the metrics once, emitting samples and alarms.
+     */
+    public async poll(): Promise<void> {
+        const thresholds = this.#opts.thresholds ?? {};
+
+        // Models without power metrics are skipped instead of failing every poll
+        const powerMetrics = this.#client.capabilities?.powerMetrics ?? true;
+
+        if ((this.#opts.powerMetrics ?? true) && powerMetrics) {
+            const metrics = await this.#client.getPowerMetrics().catch(err => this.#pollError(err));
+            if (metrics) {
+                this.emit('powerMetrics', metrics);
+                this.#checkMax(WattBoxAlarmType.OVER_CURRENT, null, metrics.amps, thresholds.maxAmps);
+                this.#checkMax(WattBoxAlarmType.OVER_POWER, null, metrics.watts, thresholds.maxWatts);
+                this.#check(WattBoxAlarmType.UNSAFE_VOLTAGE, null, metrics.safeVoltageStatus, !metrics.safeVoltageStatus, metrics.safeVoltageStatus);
+            }
+        }
+
+        if ((this.#opts.outletPowerMetrics ?? true) && powerMetrics) {
+            this.#outletCount ??= await this.#client.getOutletCount().catch(err => this.#pollError(err));
+
+            const outletMetrics: WattBoxOutletPowerMetrics[] = [];
+            for (let outlet = 1; outlet <= (this.#outletCount ?? 0); outlet++) {
+                const metrics = await this.#client.getOutletPowerMetrics(outlet).catch(err => this.#pollError(err));
+                if (metrics) {
+                    outletMetrics.push(metrics);
+                    this.#checkMax(WattBoxAlarmType.OUTLET_OVER_CURRENT, outlet, metrics.amps, thresholds.maxOutletAmps);
+                    this.#checkMax(WattBoxAlarmType.OUTLET_OVER_POWER, outlet, metrics.watts, thresholds.maxOutletWatts);
+                }
+            }
+
+            if (outletMetrics.length > 0) {
+                this.emit('outletPowerMetrics', outletMetrics);
+            }
+        }
+
+        // ?UPSStatus responds with #Error without a UPS, so it is only polled while one is connected
+        const upsConnected = (this.#opts.upsMetrics ?? true) && await this.#client.getUPSConnected().catch(err => this.#pollError(err));
+
+        if (upsConnected) {
+            const metrics = await this.#client.getUPSMetrics().catch(err => this.#pollError(err));
+            if (metrics) {
+                this.emit('upsMetrics', metrics);
+                this.#check(WattBoxAlarmType.UPS_POWER_LOST, null, metrics.powerLost, metrics.powerLost, !metrics.powerLost);
+                this.#check(WattBoxAlarmType.UPS_BATTERY_UNHEALTHY, null, metrics.batteryHealthy, !metrics.batteryHealthy, metrics.batteryHealthy);
+                this.#checkMin(WattBoxAlarmType.UPS_LOW_BATTERY_CHARGE, metrics.batteryCharge, thresholds.minBatteryCharge);
+                this.#checkMin(WattBoxAlarmType.UPS_LOW_BATTERY_RUNTIME, metrics.batteryRuntime, thresholds.minBatteryRuntime);
+            }
+        }
+    }
+
+    // A poll in flight when stopped and restarted belongs to the previous loop, which ends with it
+    #schedulePoll(delay: number, loop: number): void {
+        this.#pollTimer = setTimeout(() => {
+            this.poll().finally(() => {
+                if (this.#running && loop === this.#pollLoop) {
+                    this.#schedulePoll(this.#opts.interval ?? 60000, loop);
+                }
+            });
+        }, delay);
+    }
+
+    #pollError(err: Error): null {
+        this.emit('pollError', err);
+        return null;
+    }
+
+    #checkMax(type: WattBoxAlarmType, outlet: number | null, value: number, threshold: number | undefined): void {
+        if (threshold !== undefined) {
+            const hysteresis = this.#opts.hysteresis ?? 0.05;
+            this.#check(type, outlet, value, value > threshold, value <= threshold * (1 - hysteresis), threshold);
+        }
+    }
+
+    #checkMin(type: WattBoxAlarmType, value: number, threshold: number | undefined): void {
+        if (threshold !== undefined) {
+            const hysteresis = this.#opts.hysteresis ?? 0.05;
+            this.#check(type, null, value, value < threshold, value >= threshold * (1 + hysteresis), threshold);
+        }
+    }
+
+    #check(type: WattBoxAlarmType, outlet: number | null, value: number | boolean, raise: boolean, clear: boolean, threshold?: number): void {
+        const key = `${type}:${outlet ?? 0}`;
+        const active = this.#alarms.get(key);
+
+        if (!active) {
+            if (raise) {
+                const alarm: WattBoxAlarm = { type, outlet, value, threshold: threshold ?? null, timestamp: new Date() };
+                this.#alarms.set(key, { alarm, goodSamples: 0 });
+                this.emit('alarm', alarm);
+            }
+
+            return;
+        }
+
+        active.alarm.value = value;
+        active.goodSamples = clear ? active.goodSamples + 1 : 0;
+
+        if (active.goodSamples >= (this.#opts.clearSamples ?? 2)) {
+            this.#alarms.delete(key);
+            this.emit('alarmCleared', { ...active.alarm, timestamp: new Date() });
+        }
+    }
+}
+
+export interface WattBoxMonitorEvents {
+    /** Emitted when an alarm is raised. */
+    alarm: [alarm: WattBoxAlarm];
+    /** Emitted when an active alarm clears. */
+    alarmCleared: [alarm: WattBoxAlarm];
+    /** Emitted with every outlet power metrics sample. */
+    outletPowerMetrics: [metrics: WattBoxOutletPowerMetrics[]];
+    /** Emitted when getting metrics fails during a poll. */
+    pollError: [err: Error];
+    /** Emitted with every power metrics sample. */
+    powerMetrics: [metrics: WattBoxPowerMetrics];
+    /** Emitted with every UPS metrics sample. */
+    upsMetrics: [metrics: WattBoxUPSMetrics];
+}
+
+export interface WattBoxMonitorOpts {
+    /** Poll interval in milliseconds, default 60000ms (60s) */
+    interval?: number;
+    /** Poll power metrics, default true, not supported on WB150/250 */
+    powerMetrics?: boolean;
+    /** Poll power metrics for every outlet, default true, not supported on WB150/250 */
+    outletPowerMetrics?: boolean;
+    /** Poll UPS metrics while a UPS is connected, default true */
+    upsMetrics?: boolean;
+    /** Alarm thresholds, alarms without a threshold are not raised */
+    thresholds?: WattBoxMonitorThresholds;
+    /** Fraction of a threshold the value must recover by before a numeric alarm can clear, default 0.05 (5%) */
+    hysteresis?: number;
+    /** Consecutive good samples before an alarm clears, default 2 */
+    clearSamples?: number;
+}
+
+export interface WattBoxMonitorThresholds {
+    /** Maximum total current in amps */
+    maxAmps?: number;
+    /** Maximum total power in watts */
+    maxWatts?: number;
+    /** Maximum current in amps for any outlet */
+    maxOutletAmps?: number;
+    /** Maximum power in watts for any outlet */
+    maxOutletWatts?: number;
+    /** Minimum UPS battery charge percentage */
+    minBatteryCharge?: number;
+    /** Minimum UPS battery runtime in minutes */
+    minBatteryRuntime?: number;
+}
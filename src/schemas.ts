@@ -11,6 +11,80 @@ export enum WattBoxOutletMode {
     RESET_ONLY = 2
 }
 
+export enum WattBoxOutletRebootOperation {
+    /** Reboot when any host tied to the outlet times out */
+    OR = 0,
+    /** Reboot when all hosts tied to the outlet time out */
+    AND = 1
+}
+
+export enum WattBoxAlarmType {
+    /** Total current is over the threshold */
+    OVER_CURRENT = 0,
+    /** Total power is over the threshold */
+    OVER_POWER = 1,
+    /** Outlet current is over the threshold */
+    OUTLET_OVER_CURRENT = 2,
+    /** Outlet power is over the threshold */
+    OUTLET_OVER_POWER = 3,
+    /** Voltage is outside the safe range */
+    UNSAFE_VOLTAGE = 4,
+    /** UPS lost input power */
+    UPS_POWER_LOST = 5,
+    /** UPS battery health is bad */
+    UPS_BATTERY_UNHEALTHY = 6,
+    /** UPS battery charge is under the threshold */
+    UPS_LOW_BATTERY_CHARGE = 7,
+    /** UPS battery runtime is under the threshold */
+    UPS_LOW_BATTERY_RUNTIME = 8
+}
+
+export interface WattBoxAlarm {
+    type: WattBoxAlarmType;
+    /** The outlet number (1-indexed) for outlet alarms, otherwise null */
+    outlet: number | null;
+    /** The latest value of the metric that raised the alarm */
+    value: number | boolean;
+    /** The threshold crossed for numeric alarms, otherwise null */
+    threshold: number | null;
+    /** When the alarm was raised or cleared */
+    timestamp: Date;
+}
+
+export enum WattBoxFirmwareUpdateStage {
+    /** The firmware update command was accepted by the WattBox */
+    SENT = 0,
+    /** The WattBox went offline to apply the update */
+    OFFLINE = 1,
+    /** The WattBox is back online and the client is logged in again */
+    ONLINE = 2,
+    /** The firmware version changed */
+    VERIFIED = 3
+}
+
+export enum WattBoxNetworkMode {
+    DHCP = 0,
+    STATIC = 1
+}
+
+export type WattBoxNetworkSettings = WattBoxDhcpNetworkSettings | WattBoxStaticNetworkSettings;
+
+export interface WattBoxDhcpNetworkSettings {
+    mode: WattBoxNetworkMode.DHCP;
+    hostname: string;
+}
+
+export interface WattBoxStaticNetworkSettings {
+    mode: WattBoxNetworkMode.STATIC;
+    hostname: string;
+    ip: string;
+    subnet: string;
+    gateway: string;
+    dns1: string;
+    /** Secondary DNS server, the WattBox defaults to 8.8.8.8 if not set */
+    dns2?: string;
+}
+
 export interface WattBoxOutletPowerMetrics {
     outlet: number;
     watts: number;
@@ -18,6 +92,38 @@ export interface WattBoxOutletPowerMetrics {
     volts: number;
 }
 
+export interface WattBoxAutoRebootHost {
+    /** Name of the host, may not contain commas */
+    name: string;
+    /** Website or IP address to be tested */
+    address: string;
+    /** The outlet numbers (1-indexed) tied to the host */
+    outlets: number[];
+}
+
+export interface WattBoxAutoRebootTimeouts {
+    /** Seconds to wait before timing out a host, 1-60 */
+    timeout: number;
+    /** Consecutive time-outs before triggering an auto-reboot, 1-10 */
+    count: number;
+    /** Minutes to wait to retest the connection after an auto-reboot, 1-30 */
+    pingDelay: number;
+    /** Number of times to auto-reboot, 1-10 or 0 for unlimited */
+    rebootAttempts: number;
+}
+
+export interface WattBoxCapabilities {
+    model: string;
+    firmware: string;
+    outletCount: number;
+    /** Whether ?PowerStatus and ?OutletPowerStatus are supported, not on WB150/250 */
+    powerMetrics: boolean;
+    /** Whether the SSH transport is supported, firmware 1.3.0.4 or later */
+    ssh: boolean;
+    /** Whether !SetSDDP and !WebServerSet are supported, firmware 2.0 or later */
+    serviceCommands: boolean;
+}
+
 export interface WattBoxPowerMetrics {
     amps: number;
     watts: number;
@@ -34,3 +140,76 @@ export interface WattBoxUPSMetrics {
     alarmEnabled: boolean;
     alarmMuted: boolean;
 }
+
+export enum WattBoxScheduleAction {
+    OFF = 0,
+    ON = 1,
+    RESET = 2
+}
+
+export enum WattBoxScheduleDay {
+    SUNDAY = 0,
+    MONDAY = 1,
+    TUESDAY = 2,
+    WEDNESDAY = 3,
+    THURSDAY = 4,
+    FRIDAY = 5,
+    SATURDAY = 6
+}
+
+export enum WattBoxScheduleFrequency {
+    ONCE = 0,
+    RECURRING = 1
+}
+
+export type WattBoxSchedule = WattBoxOnceSchedule | WattBoxRecurringSchedule;
+
+interface WattBoxScheduleBase {
+    name: string;
+    /** The outlet numbers (1-indexed) the action is performed on */
+    outlets: number[];
+    action: WattBoxScheduleAction;
+    time: WattBoxScheduleTime;
+}
+
+export interface WattBoxOnceSchedule extends WattBoxScheduleBase {
+    frequency: WattBoxScheduleFrequency.ONCE;
+    /** The calendar date (in local time) the schedule runs on */
+    date: Date;
+}
+
+export interface WattBoxRecurringSchedule extends WattBoxScheduleBase {
+    frequency: WattBoxScheduleFrequency.RECURRING;
+    /** The days of the week the schedule runs on */
+    days: WattBoxScheduleDay[];
+}
+
+export interface WattBoxScheduleTime {
+    /** Hour of the day, 0-23 */
+    hour: number;
+    /** Minute of the hour, 0-59 */
+    minute: number;
+}
+
+export interface WattBoxSequence {
+    name: string;
+    steps: WattBoxSequenceStep[];
+    /** Stop at the first failed step, or continue with the remaining steps, default 'abort' */
+    onError?: 'abort' | 'continue';
+    /** Restore the outlets to their state before the sequence when it stops early, default false */
+    rollback?: boolean;
+}
+
+export interface WattBoxSequenceDefinition {
+    /** Outlet groups by name, with the outlet numbers (1-indexed) in each group */
+    groups?: Record<string, number[]>;
+    sequences?: WattBoxSequence[];
+}
+
+export interface WattBoxSequenceStep {
+    /** The outlet number (1-indexed) or outlet group name */
+    target: number | string;
+    action: 'ON' | 'OFF';
+    /** Time to wait after the step is confirmed in milliseconds, default 0 */
+    delay?: number;
+}
@@ -0,0 +1,295 @@
+import { EventEmitter } from 'events';
+import { readFile } from 'fs/promises';
+import { WattBoxArgumentError, WattBoxTimeoutError } from './client.js';
+import { WattBoxOutletAction } from './schemas.js';
+import type { WattBoxClient, WattBoxControlOpts } from './client.js';
+import type { WattBoxSequence, WattBoxSequenceDefinition, WattBoxSequenceStep } from './schemas.js';
+
+/**
+ * Runs sequences of outlet steps through a {@link WattBoxClient}, such as powering up
+ * a rack with the amplifiers last on and first off.
+ * @remarks
+ * Each step targets an outlet or a named outlet group, and is confirmed against the
+ * outlet status before the step delay and the next step. A failed step stops the sequence
+ * or is skipped, and a stopped sequence can roll the outlets back to their prior state.
+ */
+export class WattBoxSequencer extends EventEmitter<WattBoxSequencerEvents> {
+    #client: WattBoxClient;
+    #opts: WattBoxSequencerOpts;
+
+    constructor(client: WattBoxClient, opts: WattBoxSequencerOpts = {}) {
+        super();
+        this.#client = client;
+        this.#opts = opts;
+    }
+
+    /**
+     * The outlet groups by name.
+     * @returns The outlet numbers (1-indexed) in each group
+     */
+    public get groups(): Record<string, number[]> {
+        return { ...this.#opts.groups };
+    }
+
+    /**
+     * The named sequences that can be run by name.
+     * @returns The sequences
+     */
+    public get sequences(): WattBoxSequence[] {
+        return [...this.#opts.sequences ?? []];
+    }
+
+    /**
+     * Run a sequence, confirming each step against the outlet status.
+     * @param sequence - The sequence, or the name of a sequence
+     * @param opts - Sequence run options
+     * @remarks
+     * Protocol Command: !OutletSet={outlet},{action}
+     * @returns The result of the sequence
+     * @throws {@link WattBoxArgumentError} If the sequence is unknown or a step targets an unknown outlet or group.
+     * @throws The abort reason if the signal is aborted, after rolling back if enabled.
+     */
+    public async run(sequence: WattBoxSequence | string, opts: WattBoxSequenceRunOpts = {}): Promise<WattBoxSequenceResult> {
+        const resolved = typeof sequence === 'string' ? this.#opts.sequences?.find(x => x.name === sequence) : sequence;
+        if (!resolved) {
+            throw new WattBoxArgumentError('Unknown Sequence');
+        }
+
+        const steps = resolved.steps.map(step => ({ step, outlets: this.#resolveTarget(step.target) }));
+        const result: WattBoxSequenceResult = { sequence: resolved.name, completed: false, aborted: false, rolledBack: false, errors: [] };
+
+        opts.signal?.throwIfAborted();
+        const prior = await this.#client.getOutletStatus();
+
+        // The outlets each started step changed, so a failed action is not rolled back
+        const applied: { step: WattBoxSequenceStep; outlets: number[] }[] = [];
+
+        try {
+            for (const [index, { step, outlets }] of steps.entries()) {
+                opts.signal?.throwIfAborted();
+
+                const changed = { step, outlets: [] as number[] };
+                applied.push(changed);
+
+                const progress = { sequence: resolved.name, step: index, total: steps.length, outlets };
+                this.emit('progress', { ...progress, status: 'started' });
+
+                try {
+                    for (const outlet of outlets) {
+                        await this.#client.setOutletAction(outlet, WattBoxOutletAction[step.action], opts);
+                        changed.outlets.push(outlet);
+                    }
+
+                    await this.#confirm(outlets, step.action === 'ON', opts.signal);
+                    this.emit('progress', { ...progress, status: 'confirmed' });
+                }
+                catch (err) {
+                    if (opts.signal?.aborted) {
+                        throw opts.signal.reason;
+                    }
+
+                    const error = err instanceof Error ? err : new Error(String(err));
+                    result.errors.push({ step: index, error });
+                    this.emit('progress', { ...progress, status: 'failed', error });
+
+                    if ((resolved.onError ?? 'abort') === 'abort') {
+                        result.aborted = true;
+                        break;
+                    }
+
+                    continue;
+                }
+
+                await this.#sleep(step.delay ?? 0, opts.signal);
+            }
+        }
+        catch (err) {
+            if (resolved.rollback) {
+                result.rolledBack = await this.#rollback(resolved.name, applied, prior, opts);
+            }
+
+            throw err;
+        }
+
+        if (result.aborted && resolved.rollback) {
+            result.rolledBack = await this.#rollback(resolved.name, applied, prior, opts);
+        }
+
+        result.completed = result.errors.length === 0;
+        return result;
+    }
+
+    #resolveTarget(target: number | string): number[] {
+        if (typeof target === 'number') {
+            if (!Number.isInteger(target) || target < 1) {
+                throw new WattBoxArgumentError('Invalid Outlet');
+            }
+
+            return [target];
+        }
+
+        const group = this.#opts.groups?.[target];
+        if (!group) {
+            throw new WattBoxArgumentError('Unknown Outlet Group');
+        }
+
+        return group;
+    }
+
+    // Wait for the outlet status to match, checking again whenever ~OutletStatus is received
+    async #confirm(outlets: number[], on: boolean, signal: AbortSignal | undefined): Promise<void> {
+        const deadline = Date.now() + (this.#opts.confirmTimeout ?? 10000);
+
+        for (;;) {
+            const status = await this.#client.getOutletStatus();
+            if (outlets.every(x => status[x - 1] === on)) {
+                return;
+            }
+
+            if (Date.now() >= deadline) {
+                throw new WattBoxTimeoutError('Step Not Confirmed');
+            }
+
+            await this.#sleep(Math.min(this.#opts.confirmInterval ?? 1000, deadline - Date.now()), signal, true);
+        }
+    }
+
+    // Restore outlets changed by the steps in reverse order, returns false if any outlet was not restored
+    async #rollback(sequence: string, steps: { step: WattBoxSequenceStep; outlets: number[] }[], prior: boolean[], opts: WattBoxControlOpts): Promise<boolean> {
+        const restored = new Set<number>();
+        let success = true;
+
+        for (let index = steps.length - 1; index >= 0; index--) {
+            const outlets = (steps[index]?.outlets ?? []).filter(x => !restored.has(x) && prior[x - 1] !== undefined);
+            outlets.forEach(x => restored.add(x));
+
+            if (outlets.length === 0) {
+                continue;
+            }
+
+            try {
+                for (const outlet of outlets) {
+                    await this.#client.setOutletAction(outlet, prior[outlet - 1] ? WattBoxOutletAction.ON : WattBoxOutletAction.OFF, opts);
+                }
+
+                this.emit('progress', { sequence, step: index, total: steps.length, outlets, status: 'rolledBack' });
+            }
+            catch (err) {
+                success = false;
+                this.emit('progress', { sequence, step: index, total: steps.length, outlets, status: 'failed', error: err instanceof Error ? err : new Error(String(err)) });
+            }
+        }
+
+        return success;
+    }
+
+    #sleep(delay: number, signal: AbortSignal | undefined, wakeOnStatus = false): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
+            }
+
+            const done = (err?: unknown) => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                this.#client.removeListener('outletStatus', onStatus);
+
+                if (err === undefined) {
+                    resolve();
+                }
+                else {
+                    reject(err);
+                }
+            };
+
+            const onAbort = () => done(signal?.reason);
+            const onStatus = () => done();
+            const timer = setTimeout(() => done(), delay);
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+            if (wakeOnStatus) {
+                this.#client.on('outletStatus', onStatus);
+            }
+        });
+    }
+}
+
+/**
+ * Read outlet groups and sequences from a JSON file, e.g. shipped with a site.
+ * @param path - The path of the JSON file
+ * @returns The outlet groups and sequences, to pass to a {@link WattBoxSequencer}
+ * @throws {@link WattBoxArgumentError} If the file is not a valid sequence definition.
+ */
+export async function readWattBoxSequences(path: string): Promise<WattBoxSequenceDefinition> {
+    let definition: WattBoxSequenceDefinition;
+    try {
+        definition = JSON.parse(await readFile(path, 'utf8')) as WattBoxSequenceDefinition;
+    }
+    catch {
+        throw new WattBoxArgumentError('Invalid Sequence Definition');
+    }
+
+    const isObject = (x: unknown) => typeof x === 'object' && x !== null && !Array.isArray(x);
+    const isOutlet = (x: unknown) => typeof x === 'number' && Number.isInteger(x) && x >= 1;
+    const isStep = (x: WattBoxSequenceStep) => isObject(x)
+        && (isOutlet(x.target) || typeof x.target === 'string')
+        && (x.action === 'ON' || x.action === 'OFF')
+        && (x.delay === undefined || (typeof x.delay === 'number' && x.delay >= 0));
+
+    if (!isObject(definition) || (definition.groups !== undefined && !isObject(definition.groups))) {
+        throw new WattBoxArgumentError('Invalid Sequence Definition');
+    }
+
+    const groups = Object.values(definition.groups ?? {});
+    const sequences = definition.sequences ?? [];
+
+    if (!groups.every(x => Array.isArray(x) && x.every(isOutlet))
+        || !Array.isArray(sequences)
+        || !sequences.every(x => isObject(x) && typeof x.name === 'string' && Array.isArray(x.steps) && x.steps.every(isStep))) {
+        throw new WattBoxArgumentError('Invalid Sequence Definition');
+    }
+
+    return definition;
+}
+
+export interface WattBoxSequencerEvents {
+    /** Emitted as each step starts, is confirmed, fails, or is rolled back. */
+    progress: [progress: WattBoxSequenceProgress];
+}
+
+export interface WattBoxSequencerOpts extends WattBoxSequenceDefinition {
+    /** Interval to check the outlet status while confirming in milliseconds, default 1000ms (1s) */
+    confirmInterval?: number;
+    /** Maximum time to wait for a step to be confirmed in milliseconds, default 10000ms (10s) */
+    confirmTimeout?: number;
+}
+
+export interface WattBoxSequenceProgress {
+    sequence: string;
+    /** The step index (0-indexed) */
+    step: number;
+    total: number;
+    /** The outlet numbers (1-indexed) the step targets */
+    outlets: number[];
+    status: 'started' | 'confirmed' | 'failed' | 'rolledBack';
+    /** The error, for failed steps */
+    error?: Error;
+}
+
+export interface WattBoxSequenceResult {
+    sequence: string;
+    /** Whether every step was confirmed */
+    completed: boolean;
+    /** Whether the sequence stopped at a failed step */
+    aborted: boolean;
+    /** Whether the outlets were rolled back to their prior state */
+    rolledBack: boolean;
+    /** The failed steps (0-indexed) and their errors */
+    errors: { step: number; error: Error }[];
+}
+
+export interface WattBoxSequenceRunOpts extends WattBoxControlOpts {
+    /** Cancels the sequence, rolling back if enabled */
+    signal?: AbortSignal;
+}
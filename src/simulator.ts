@@ -0,0 +1,580 @@
+import { EventEmitter } from 'events';
+import { isIPv4, Server } from 'net';
+import { WattBoxLineFramer } from './codec.js';
+import { WattBoxNetworkMode } from './schemas.js';
+import type { Socket } from 'net';
+import type { WattBoxAutoRebootHost, WattBoxAutoRebootTimeouts, WattBoxNetworkSettings, WattBoxUPSMetrics } from './schemas.js';
+
+/**
+ * A local WattBox Integration Protocol server backed by in-memory device state,
+ * for testing and developing against without a physical WattBox.
+ * @remarks
+ * Speaks the telnet flavor of the protocol, connect a {@link WattBoxClient}
+ * to it with the simulator host, port, username, and password.
+ */
+export class WattBoxSimulator extends EventEmitter<WattBoxSimulatorEvents> {
+    #opts: WattBoxSimulatorOpts;
+
+    #faults: WattBoxSimulatorFault[] = [];
+    #rebooting = false;
+    #server: Server = new Server();
+    #sessions = new Set<WattBoxSimulatorSession>();
+    #timers = new Set<NodeJS.Timeout>();
+
+    /** The simulated device state, may be modified directly. */
+    public readonly state: WattBoxSimulatorState;
+
+    constructor(opts: WattBoxSimulatorOpts = {}) {
+        super();
+        this.#opts = opts;
+
+        const profile = opts.profile ?? WattBoxSimulatorProfiles.WB800;
+        this.state = {
+            firmware: '2.0.0.0',
+            hostname: 'WattBox',
+            serviceTag: 'ST000000000000000',
+            model: profile.model,
+            powerMetrics: profile.powerMetrics,
+            autoReboot: false,
+            autoRebootHosts: [],
+            autoRebootTimeouts: { timeout: 30, count: 3, pingDelay: 5, rebootAttempts: 0 },
+            username: opts.username ?? 'wattbox',
+            password: opts.password ?? 'wattbox',
+            network: { mode: WattBoxNetworkMode.DHCP, hostname: 'WattBox' },
+            volts: 120,
+            safeVoltage: true,
+            outlets: Array.from({ length: profile.outletCount }, (_, i) => ({
+                name: `Outlet ${i + 1}`,
+                on: true,
+                mode: 0,
+                powerOnDelay: 1,
+                rebootOperation: 0,
+                watts: 10
+            })),
+            schedules: [],
+            services: { telnet: true, webServer: true, sddp: true },
+            ups: null
+        };
+
+        this.#server.on('connection', socket => this.#handleConnection(socket));
+    }
+
+    /**
+     * The port the simulator is listening on.
+     * @returns The listening port number
+     */
+    public get port(): number {
+        const address = this.#server.address();
+        return address && typeof address === 'object' ? address.port : this.#opts.port ?? 0;
+    }
+
+    /**
+     * Start listening for connections.
+     */
+    public listen(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.#server.once('error', reject);
+            this.#server.listen(this.#opts.port ?? 0, this.#opts.host ?? '127.0.0.1', () => {
+                this.#server.removeListener('error', reject);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stop listening and close all sessions.
+     */
+    public close(): Promise<void> {
+        this.#timers.forEach(timer => clearTimeout(timer));
+        this.#timers.clear();
+        this.#sessions.forEach(session => session.socket.destroy());
+        return new Promise(resolve => this.#server.close(() => resolve()));
+    }
+
+    /**
+     * Inject a fault into responses to matching commands.
+     * @param fault - The fault to inject
+     */
+    public injectFault(fault: WattBoxSimulatorFault): void {
+        this.#faults.push({ ...fault });
+    }
+
+    /**
+     * Remove all injected faults.
+     */
+    public clearFaults(): void {
+        this.#faults = [];
+    }
+
+    /**
+     * Set the state of an outlet as if it were changed on the device itself,
+     * pushing an unsolicited outlet status message to all sessions.
+     * @param outlet - The outlet number (1-indexed)
+     * @param on - The new outlet state
+     */
+    public setOutletStatus(outlet: number, on: boolean): void {
+        const state = this.state.outlets[outlet - 1];
+        if (state && state.on !== on) {
+            state.on = on;
+            this.#broadcastOutletStatus();
+        }
+    }
+
+    #handleConnection(socket: Socket): void {
+        if (this.#rebooting || this.#sessions.size >= (this.#opts.maxSessions ?? 10)) {
+            socket.destroy();
+            return;
+        }
+
+        const session: WattBoxSimulatorSession = { socket, framer: new WattBoxLineFramer({ prompts: [] }), stage: 'username', username: '' };
+        this.#sessions.add(session);
+
+        socket.setEncoding('utf8');
+        socket.on('data', (data: string) => {
+            session.framer.push(data).forEach(line => this.#handleLine(session, line));
+        });
+        socket.on('close', () => this.#sessions.delete(session));
+        socket.on('error', () => socket.destroy());
+
+        socket.write('Please Login to Continue\nUsername: ');
+    }
+
+    #handleLine(session: WattBoxSimulatorSession, line: string): void {
+        switch (session.stage) {
+            case 'username':
+                session.username = line;
+                session.stage = 'password';
+                session.socket.write('Password: ');
+                return;
+            case 'password': {
+                const success = session.username === this.state.username && line === this.state.password;
+                this.emit('login', session.username, success);
+                if (success) {
+                    session.stage = 'ready';
+                    session.socket.write('Successfully Logged In!\n');
+                }
+                else {
+                    session.stage = 'username';
+                    session.socket.write('Invalid Login\nUsername: ');
+                }
+                return;
+            }
+        }
+
+        if (!line) {
+            return;
+        }
+
+        this.emit('command', line);
+
+        if (line === '!Exit') {
+            session.socket.end();
+            return;
+        }
+
+        this.#respond(session, line, this.#handleCommand(line));
+    }
+
+    #respond(session: WattBoxSimulatorSession, command: string, response: string): void {
+        const commandPrefix = command.split('=')[0];
+        const fault = this.#faults.find(x => x.command === undefined || x.command === commandPrefix);
+
+        if (fault) {
+            fault.count = (fault.count ?? Infinity) - 1;
+            if (fault.count <= 0) {
+                this.#faults = this.#faults.filter(x => x !== fault);
+            }
+        }
+
+        switch (fault?.type) {
+            case 'drop':
+                session.socket.destroy();
+                return;
+            case 'error':
+                response = '#Error';
+                break;
+            case 'garble':
+                response = response.split('').reverse().join('').replace(/[=,]/g, '%');
+                break;
+        }
+
+        if (fault?.type === 'delay') {
+            this.#schedule(() => session.socket.write(`${response}\n`), fault.delay ?? 1000);
+        }
+        else {
+            session.socket.write(`${response}\n`);
+        }
+    }
+
+    #handleCommand(line: string): string {
+        const [command, args = ''] = line.split(/=(.*)/s) as [string, string?];
+        const params = args.split(',');
+        const state = this.state;
+
+        switch (command) {
+            case '?AutoReboot':
+                return `?AutoReboot=${state.autoReboot ? 1 : 0}`;
+            case '?Firmware':
+                return `?Firmware=${state.firmware}`;
+            case '?Hostname':
+                return `?Hostname=${state.hostname}`;
+            case '?Model':
+                return `?Model=${state.model}`;
+            case '?OutletCount':
+                return `?OutletCount=${state.outlets.length}`;
+            case '?OutletName':
+                return `?OutletName=${state.outlets.map(x => `{${x.name}}`).join(',')}`;
+            case '?OutletPowerStatus': {
+                const outlet = this.#getOutlet(params[0]);
+                if (!state.powerMetrics || !outlet) {
+                    return '#Error';
+                }
+
+                const watts = outlet.on ? outlet.watts : 0;
+                return `?OutletPowerStatus=${params[0]},${watts.toFixed(2)},${(watts / state.volts).toFixed(2)},${state.volts.toFixed(2)}`;
+            }
+            case '?OutletStatus':
+                return `?OutletStatus=${this.#formatOutletStatus()}`;
+            case '?PowerStatus': {
+                if (!state.powerMetrics) {
+                    return '#Error';
+                }
+
+                const watts = state.outlets.reduce((sum, x) => sum + (x.on ? x.watts : 0), 0);
+                return `?PowerStatus=${(watts / state.volts).toFixed(2)},${watts.toFixed(2)},${state.volts.toFixed(2)},${state.safeVoltage ? 1 : 0}`;
+            }
+            case '?ServiceTag':
+                return `?ServiceTag=${state.serviceTag}`;
+            case '?UPSConnection':
+                return `?UPSConnection=${state.ups ? 1 : 0}`;
+            case '?UPSStatus': {
+                const ups = state.ups;
+                if (!ups) {
+                    return '#Error';
+                }
+
+                const bool = (value: boolean) => value ? 'True' : 'False';
+                return `?UPSStatus=${ups.batteryCharge},${ups.batteryLoad},${ups.batteryHealthy ? 'Good' : 'Bad'},${bool(ups.powerLost)},${ups.batteryRuntime},${bool(ups.alarmEnabled)},${bool(ups.alarmMuted)}`;
+            }
+            case '!AccountSet': {
+                const [username = '', password = ''] = params;
+                if (params.length !== 2 || !username || !password) {
+                    return '#Error';
+                }
+
+                state.username = username;
+                state.password = password;
+                setImmediate(() => this.#sessions.forEach(session => session.socket.destroy()));
+                return 'OK';
+            }
+            case '!AutoReboot':
+                if (args !== '0' && args !== '1') {
+                    return '#Error';
+                }
+
+                state.autoReboot = args === '1';
+                return 'OK';
+            case '!AutoRebootTimeoutSet': {
+                const [timeout, count, pingDelay, rebootAttempts] = params.map(x => /^\d+$/.test(x) ? parseInt(x) : NaN);
+                const inRange = (value: number | undefined, min: number, max: number) => value !== undefined && value >= min && value <= max;
+                if (params.length !== 4 || !inRange(timeout, 1, 60) || !inRange(count, 1, 10) || !inRange(pingDelay, 1, 30) || !inRange(rebootAttempts, 0, 10)) {
+                    return '#Error';
+                }
+
+                state.autoRebootTimeouts = { timeout: timeout ?? 0, count: count ?? 0, pingDelay: pingDelay ?? 0, rebootAttempts: rebootAttempts ?? 0 };
+                return 'OK';
+            }
+            case '!FirmwareUpdate':
+                if (!/^https?:\/\/\S+$/i.test(args)) {
+                    return '#Error';
+                }
+
+                this.#updateFirmware(args);
+                return 'OK';
+            case '!HostAdd': {
+                const match = /^([^,]+),([^,]+),\{(\d+(?:,\d+)*)\}$/.exec(args);
+                if (!match || !match[1] || !match[2] || !match[3]) {
+                    return '#Error';
+                }
+
+                const outlets = match[3].split(',').map(x => parseInt(x));
+                if (outlets.some(x => !this.#getOutlet(x.toString()))) {
+                    return '#Error';
+                }
+
+                state.autoRebootHosts.push({ name: match[1], address: match[2], outlets });
+                return 'OK';
+            }
+            case '!NetworkSet': {
+                const [hostname = '', ip = '', subnet = '', gateway = '', dns1 = '', dns2 = '8.8.8.8'] = params;
+                if (!hostname || (params.length !== 1 && ((params.length !== 5 && params.length !== 6) || [ip, subnet, gateway, dns1, dns2].some(x => !isIPv4(x))))) {
+                    return '#Error';
+                }
+
+                state.hostname = hostname;
+                state.network = params.length === 1
+                    ? { mode: WattBoxNetworkMode.DHCP, hostname }
+                    : { mode: WattBoxNetworkMode.STATIC, hostname, ip, subnet, gateway, dns1, dns2 };
+                this.#reboot();
+                return 'OK';
+            }
+            case '!OutletModeSet': {
+                const outlet = this.#getOutlet(params[0]);
+                if (!outlet || !/^[012]$/.test(params[1] ?? '')) {
+                    return '#Error';
+                }
+
+                outlet.mode = parseInt(params[1] ?? '0');
+                return 'OK';
+            }
+            case '!OutletNameSet': {
+                const outlet = this.#getOutlet(params[0]);
+                if (!outlet) {
+                    return '#Error';
+                }
+
+                const name = args.slice(args.indexOf(',') + 1);
+                if (!name || /[{}]/.test(name)) {
+                    return '#Error';
+                }
+
+                outlet.name = name;
+                return 'OK';
+            }
+            case '!OutletNameSetAll': {
+                const names = Array.from(args.matchAll(/\{([^{}]*)\}/g), x => x[1] ?? '');
+                if (names.length !== state.outlets.length || names.some(x => !x)) {
+                    return '#Error';
+                }
+
+                state.outlets.forEach((x, i) => {
+                    x.name = names[i] ?? x.name;
+                });
+                return 'OK';
+            }
+            case '!OutletRebootSet':
+                if (params.length !== state.outlets.length || params.some(x => x !== '0' && x !== '1')) {
+                    return '#Error';
+                }
+
+                state.outlets.forEach((x, i) => {
+                    x.rebootOperation = parseInt(params[i] ?? '0');
+                });
+                return 'OK';
+            case '!OutletPowerOnDelaySet': {
+                const outlet = this.#getOutlet(params[0]);
+                const delay = parseInt(params[1] ?? '');
+                if (!outlet || !(delay >= 1 && delay <= 600)) {
+                    return '#Error';
+                }
+
+                outlet.powerOnDelay = delay;
+                return 'OK';
+            }
+            case '!OutletSet':
+                return this.#handleOutletSet(params);
+            case '!Reboot':
+                this.#reboot();
+                return 'OK';
+            case '!SetSDDP':
+            case '!SetTelnet':
+            case '!WebServerSet': {
+                const service = ({ '!SetSDDP': 'sddp', '!SetTelnet': 'telnet', '!WebServerSet': 'webServer' } as const)[command];
+                if ((args !== '0' && args !== '1') || parseInt(state.firmware) < 2) {
+                    return '#Error';
+                }
+
+                state.services[service] = args === '1';
+                return 'OK';
+            }
+            case '!ScheduleAdd': {
+                const values = Array.from(args.matchAll(/\{([^{}]*)\}/g), x => x[1] ?? '');
+                if (values.length !== 6 || !values[0]) {
+                    return '#Error';
+                }
+
+                state.schedules.push(args);
+                return 'OK';
+            }
+            default:
+                return '#Error';
+        }
+    }
+
+    #handleOutletSet(params: string[]): string {
+        const action = params[1];
+        const outlet = this.#getOutlet(params[0]);
+        const outlets = params[0] === '0' && action === 'RESET' ? this.state.outlets : outlet ? [outlet] : [];
+
+        if (outlets.length === 0 || outlets.some(x => x.mode === 1 || (x.mode === 2 && action !== 'RESET'))) {
+            return '#Error';
+        }
+
+        switch (action) {
+            case 'OFF':
+            case 'ON':
+            case 'TOGGLE':
+                outlets.forEach((x) => {
+                    x.on = action === 'TOGGLE' ? !x.on : action === 'ON';
+                });
+                break;
+            case 'RESET':
+                outlets.forEach((x) => {
+                    x.on = false;
+                });
+                this.#schedule(() => {
+                    outlets.forEach((x) => {
+                        x.on = true;
+                    });
+                    this.#broadcastOutletStatus();
+                }, this.#opts.resetDuration ?? 1000);
+                break;
+            default:
+                return '#Error';
+        }
+
+        // Unsolicited status follows the OK response
+        setImmediate(() => this.#broadcastOutletStatus());
+        return 'OK';
+    }
+
+    #updateFirmware(url: string): void {
+        // Download the firmware file, then reboot into the next version
+        fetch(url)
+            .then(res => res.ok ? res.arrayBuffer() : Promise.reject(new Error(`HTTP ${res.status}`)))
+            .then(() => {
+                this.state.firmware = this.#opts.firmwareUpdateVersion ?? this.state.firmware.replace(/\d+$/, x => (parseInt(x) + 1).toString());
+            })
+            .catch(() => undefined)
+            .finally(() => this.#reboot());
+    }
+
+    #reboot(): void {
+        this.#rebooting = true;
+        setImmediate(() => this.#sessions.forEach(session => session.socket.destroy()));
+        this.#schedule(() => {
+            this.#rebooting = false;
+        }, this.#opts.rebootDuration ?? 1000);
+    }
+
+    #getOutlet(outlet: string | undefined): WattBoxSimulatorOutlet | undefined {
+        return /^\d+$/.test(outlet ?? '') ? this.state.outlets[parseInt(outlet ?? '') - 1] : undefined;
+    }
+
+    #formatOutletStatus(): string {
+        return this.state.outlets.map(x => x.on ? 1 : 0).join(',');
+    }
+
+    #broadcastOutletStatus(): void {
+        const message = `~OutletStatus=${this.#formatOutletStatus()}\n`;
+        this.#sessions.forEach((session) => {
+            if (session.stage === 'ready') {
+                session.socket.write(message);
+            }
+        });
+    }
+
+    #schedule(callback: () => void, delay: number): void {
+        const timer = setTimeout(() => {
+            this.#timers.delete(timer);
+            callback();
+        }, delay);
+        this.#timers.add(timer);
+    }
+}
+
+export interface WattBoxSimulatorEvents {
+    /** Emitted when a command is received from a logged in session. */
+    command: [command: string];
+    /** Emitted when a session attempts to log in. */
+    login: [username: string, success: boolean];
+}
+
+export interface WattBoxSimulatorFault {
+    /** The fault type, drop the connection, delay the response, garble the response, or respond with #Error */
+    type: 'drop' | 'delay' | 'garble' | 'error';
+    /** The command prefix to inject the fault for (e.g. ?Model or !OutletSet), default all commands */
+    command?: string;
+    /** Number of responses to inject the fault into, default Infinity */
+    count?: number;
+    /** Response delay in milliseconds for delay faults, default 1000ms (1s) */
+    delay?: number;
+}
+
+export interface WattBoxSimulatorOpts {
+    /** Host to listen on, default 127.0.0.1 */
+    host?: string;
+    /** Port to listen on, default 0 (a random available port) */
+    port?: number;
+    /** Login username, default wattbox */
+    username?: string;
+    /** Login password, default wattbox */
+    password?: string;
+    /** Device model profile, default WattBoxSimulatorProfiles.WB800 */
+    profile?: WattBoxSimulatorProfile;
+    /** Maximum number of simultaneous sessions, default 10 */
+    maxSessions?: number;
+    /** Time in milliseconds an outlet stays off during a reset, default 1000ms (1s) */
+    resetDuration?: number;
+    /** Firmware version after a firmware update, default the current version with the last component incremented */
+    firmwareUpdateVersion?: string;
+    /** Time in milliseconds the device is offline during a reboot, default 1000ms (1s) */
+    rebootDuration?: number;
+}
+
+export interface WattBoxSimulatorOutlet {
+    name: string;
+    on: boolean;
+    mode: number;
+    powerOnDelay: number;
+    /** Auto reboot operation, 0 for OR and 1 for AND */
+    rebootOperation: number;
+    /** Power draw in watts while the outlet is on */
+    watts: number;
+}
+
+export interface WattBoxSimulatorProfile {
+    /** Model number reported by ?Model */
+    model: string;
+    outletCount: number;
+    /** Whether ?PowerStatus and ?OutletPowerStatus are supported */
+    powerMetrics: boolean;
+}
+
+export const WattBoxSimulatorProfiles = {
+    WB800: { model: 'WB-800-IPVM-6', outletCount: 6, powerMetrics: true },
+    WB800_12: { model: 'WB-800-IPVM-12', outletCount: 12, powerMetrics: true },
+    WB250: { model: 'WB-250-IPW-2', outletCount: 2, powerMetrics: false },
+    WB150: { model: 'WB-150-IPW-1', outletCount: 1, powerMetrics: false }
+} satisfies Record<string, WattBoxSimulatorProfile>;
+
+export interface WattBoxSimulatorState {
+    firmware: string;
+    hostname: string;
+    serviceTag: string;
+    model: string;
+    powerMetrics: boolean;
+    autoReboot: boolean;
+    /** Hosts added with !HostAdd */
+    autoRebootHosts: WattBoxAutoRebootHost[];
+    autoRebootTimeouts: WattBoxAutoRebootTimeouts;
+    username: string;
+    password: string;
+    network: WattBoxNetworkSettings;
+    volts: number;
+    safeVoltage: boolean;
+    outlets: WattBoxSimulatorOutlet[];
+    /** Service settings, telnet and web server changes apply to the real device after a reboot */
+    services: { telnet: boolean; webServer: boolean; sddp: boolean };
+    /** Schedules added with !ScheduleAdd, as sent */
+    schedules: string[];
+    /** Attached UPS metrics, or null if no UPS is connected */
+    ups: WattBoxUPSMetrics | null;
+}
+
+interface WattBoxSimulatorSession {
+    socket: Socket;
+    framer: WattBoxLineFramer;
+    stage: 'username' | 'password' | 'ready';
+    username: string;
+}
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+describe('wattbox CLI', () => {
+    let dir: string;
+
+    // Runs the CLI without the WATTBOX_* environment variables, so only the config file applies
+    const run = (...args: string[]) => new Promise<{ code: number | null; stderr: string }>((resolve) => {
+        const env = Object.fromEntries(Object.entries(process.env).filter(([key]) => !key.startsWith('WATTBOX_')));
+        const child = execFile(process.execPath, [join(import.meta.dirname, '..', 'cli.js'), ...args], { env, timeout: 10000 }, (_err, _stdout, stderr) => {
+            resolve({ code: child.exitCode, stderr });
+        });
+    });
+
+    before(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'wattbox-cli-'));
+    });
+
+    after(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('exits with a usage error on a config file that is not valid JSON', async () => {
+        const config = join(dir, 'invalid.json');
+        await writeFile(config, '{ "host": ');
+
+        const { code, stderr } = await run('--config', config, 'status');
+        assert.equal(code, 1);
+        assert.match(stderr, /Invalid config file/);
+    });
+
+    it('exits with a usage error on a config file that is not a JSON object', async () => {
+        const config = join(dir, 'null.json');
+        await writeFile(config, 'null');
+
+        const { code, stderr } = await run('--config', config, 'status');
+        assert.equal(code, 1);
+        assert.match(stderr, /Invalid config file/);
+    });
+});
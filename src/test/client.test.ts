@@ -0,0 +1,699 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+    WattBoxArgumentError,
+    WattBoxClient,
+    WattBoxCredentialsError,
+    WattBoxDeviceError,
+    WattBoxFirmwareUpdateStage,
+    WattBoxNetworkMode,
+    WattBoxNotConnectedError,
+    WattBoxOutletAction,
+    WattBoxOutletRebootOperation,
+    WattBoxProtectedError,
+    WattBoxScheduleAction,
+    WattBoxScheduleDay,
+    WattBoxScheduleFrequency,
+    WattBoxSimulator,
+    WattBoxSimulatorProfiles,
+    WattBoxTimeoutError,
+    WattBoxUnsupportedError
+} from '../module.js';
+import type { WattBoxAuditEntry, WattBoxClientOpts, WattBoxNetworkSettings, WattBoxSchedule, WattBoxSimulatorOpts } from '../module.js';
+
+describe('WattBoxClient against WattBoxSimulator', () => {
+    let simulator: WattBoxSimulator;
+    let clients: WattBoxClient[];
+
+    const startSimulator = async (opts: WattBoxSimulatorOpts = {}) => {
+        simulator = new WattBoxSimulator({ resetDuration: 50, rebootDuration: 50, ...opts });
+        await simulator.listen();
+    };
+
+    const createClient = (opts: Partial<WattBoxClientOpts> = {}) => {
+        const client = new WattBoxClient({ host: '127.0.0.1', port: simulator.port, username: 'wattbox', password: 'wattbox', timeout: 1000, reconnect: { maxAttempts: 0 }, ...opts });
+        clients.push(client);
+        return client;
+    };
+
+    // The direction of each line the client sent or received, in order
+    const recordTraffic = (client: WattBoxClient) => {
+        const traffic: string[] = [];
+        client.on('debugmsg', (message) => {
+            if (message.startsWith('[--->]')) {
+                traffic.push('out');
+            }
+            else if (message.startsWith('[<---]') && !message.includes('~')) {
+                traffic.push('in');
+            }
+        });
+        return traffic;
+    };
+
+    beforeEach(() => {
+        clients = [];
+    });
+
+    afterEach(async () => {
+        await Promise.all(clients.map(x => x.disconnect()));
+        await simulator.close();
+    });
+
+    describe('faults', () => {
+        beforeEach(() => startSimulator());
+
+        it('rejects with WattBoxDeviceError on an error response', async () => {
+            const client = createClient();
+            await client.connect();
+
+            simulator.injectFault({ type: 'error', command: '?Model', count: 1 });
+            await assert.rejects(client.getModel(), WattBoxDeviceError);
+            assert.equal(await client.getModel(), 'WB-800-IPVM-6');
+        });
+
+        it('rejects with WattBoxTimeoutError on a garbled response, and recovers', async () => {
+            const client = createClient({ timeout: 200 });
+            await client.connect();
+
+            simulator.injectFault({ type: 'garble', command: '?Firmware', count: 1 });
+            await assert.rejects(client.getFirmware(), WattBoxTimeoutError);
+            assert.equal(await client.getFirmware(), '2.0.0.0');
+        });
+
+        it('rejects with WattBoxTimeoutError on a delayed response, without tearing down the socket', async () => {
+            const client = createClient({ timeout: 200 });
+            await client.connect();
+
+            let disconnected = false;
+            client.on('disconnected', () => {
+                disconnected = true;
+            });
+
+            simulator.injectFault({ type: 'delay', command: '?Model', count: 1, delay: 300 });
+            await assert.rejects(client.getModel(), WattBoxTimeoutError);
+            assert.equal(client.state, 'ready');
+
+            // The late ?Model response is not mistaken for the response to a later request
+            assert.equal(await client.getFirmware(), '2.0.0.0');
+            assert.equal(await client.getModel(), 'WB-800-IPVM-6');
+            assert.equal(disconnected, false);
+        });
+
+        it('rejects with WattBoxNotConnectedError when the connection drops', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const disconnected = once(client, 'disconnected');
+            simulator.injectFault({ type: 'drop', command: '?Model', count: 1 });
+            await assert.rejects(client.getModel(), WattBoxNotConnectedError);
+            await disconnected;
+            assert.equal(client.state, 'closed');
+        });
+    });
+
+    describe('sessions', () => {
+        beforeEach(() => startSimulator());
+
+        it('allows at most 10 simultaneous sessions', async () => {
+            const sessions = Array.from({ length: 10 }, () => createClient());
+            await Promise.all(sessions.map(x => x.connect()));
+
+            await assert.rejects(createClient().connect(), WattBoxNotConnectedError);
+
+            // A session is available again once the simulator sees one close
+            await sessions[0]?.disconnect();
+            await new Promise(resolve => setTimeout(resolve, 100));
+            await createClient().connect();
+        });
+    });
+
+    describe('profiles', () => {
+        it('detects a WB-250 without power metrics', async () => {
+            await startSimulator({ profile: WattBoxSimulatorProfiles.WB250 });
+            const client = createClient();
+            await client.connect();
+
+            assert.equal(client.capabilities?.model, 'WB-250-IPW-2');
+            assert.equal(client.capabilities?.outletCount, 2);
+            assert.equal(client.capabilities?.powerMetrics, false);
+            await assert.rejects(client.getPowerMetrics(), WattBoxUnsupportedError);
+            await assert.rejects(client.getOutletPowerMetrics(1), WattBoxUnsupportedError);
+            assert.deepEqual(await client.getOutletStatus(), [true, true]);
+        });
+
+        it('detects a WB-150 with a single outlet', async () => {
+            await startSimulator({ profile: WattBoxSimulatorProfiles.WB150 });
+            const client = createClient();
+            await client.connect();
+
+            assert.equal(client.capabilities?.outletCount, 1);
+            assert.equal(client.capabilities?.powerMetrics, false);
+            await client.setOutletAction(1, WattBoxOutletAction.OFF);
+            assert.deepEqual(await client.getOutletStatus(), [false]);
+        });
+    });
+
+    describe('command correlation', () => {
+        beforeEach(() => startSimulator());
+
+        it('sends one command at a time by default', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const traffic = recordTraffic(client);
+            await Promise.all([client.getModel(), client.getFirmware(), client.getOutletCount()]);
+            assert.deepEqual(traffic, ['out', 'in', 'out', 'in', 'out', 'in']);
+        });
+
+        it('pipelines commands up to the pipeline depth', async () => {
+            const client = createClient({ pipelineDepth: 3 });
+            await client.connect();
+
+            const traffic = recordTraffic(client);
+            await Promise.all([client.getModel(), client.getFirmware(), client.getOutletCount(), client.getHostname()]);
+            assert.deepEqual(traffic.slice(0, 4), ['out', 'out', 'out', 'in']);
+            assert.equal(traffic.filter(x => x === 'out').length, 4);
+        });
+
+        it('correlates pipelined responses in order, with controls, errors and unsolicited status', async () => {
+            const client = createClient({ pipelineDepth: 4 });
+            await client.connect();
+
+            simulator.injectFault({ type: 'error', command: '?Hostname', count: 1 });
+            const [model, control, hostname, status, firmware] = await Promise.allSettled([
+                client.getModel(),
+                client.setOutletAction(2, WattBoxOutletAction.OFF),
+                client.getHostname(),
+                client.getOutletStatus(),
+                client.getFirmware()
+            ]);
+
+            assert.deepEqual(model, { status: 'fulfilled', value: 'WB-800-IPVM-6' });
+            assert.equal(control.status, 'fulfilled');
+            assert.equal(hostname.status, 'rejected');
+            assert.ok(hostname.reason instanceof WattBoxDeviceError);
+            assert.deepEqual(status, { status: 'fulfilled', value: [true, false, true, true, true, true] });
+            assert.deepEqual(firmware, { status: 'fulfilled', value: '2.0.0.0' });
+        });
+    });
+
+    describe('outlet names', () => {
+        beforeEach(() => startSimulator());
+
+        it('sets every outlet name at once, trimmed', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const names = [' Router ', 'Switch, PoE', 'NVR', 'Amp (Zone 1)', 'Apple TV', 'x'.repeat(32)];
+            await client.setOutletNames(names);
+            assert.deepEqual(await client.getOutletNames(), names.map(x => x.trim()));
+        });
+
+        it('rejects invalid names or a different number of names without sending them', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const names = ['Router', 'Switch', 'NVR', 'Amp', 'Apple TV', 'Spare'];
+            const invalid: [string[], string][] = [
+                [['{Router}', ...names.slice(1)], 'Invalid Outlet Name'],
+                [['  ', ...names.slice(1)], 'Invalid Outlet Name'],
+                [['x'.repeat(33), ...names.slice(1)], 'Invalid Outlet Name'],
+                [['Café', ...names.slice(1)], 'Invalid Outlet Name'],
+                [['Line\nBreak', ...names.slice(1)], 'Invalid Outlet Name'],
+                [names.slice(1), 'Invalid Outlet Name Count'],
+                [[...names, 'Extra'], 'Invalid Outlet Name Count']
+            ];
+
+            for (const [invalidNames, message] of invalid) {
+                await assert.rejects(client.setOutletNames(invalidNames), { name: 'WattBoxArgumentError', message }, JSON.stringify(invalidNames));
+            }
+
+            assert.deepEqual(simulator.state.outlets.map(x => x.name), ['Outlet 1', 'Outlet 2', 'Outlet 3', 'Outlet 4', 'Outlet 5', 'Outlet 6']);
+        });
+    });
+
+    describe('outlet settings', () => {
+        beforeEach(() => startSimulator());
+
+        it('sets a reboot operation for every outlet', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const { AND, OR } = WattBoxOutletRebootOperation;
+            await client.setOutletRebootOperations([AND, OR, AND, OR, OR, AND]);
+            assert.deepEqual(simulator.state.outlets.map(x => x.rebootOperation), [1, 0, 1, 0, 0, 1]);
+        });
+
+        it('rejects reboot operations that do not match the outlet count', async () => {
+            const client = createClient();
+            await client.connect();
+
+            for (const count of [0, 5, 7]) {
+                const operations = Array.from({ length: count }, () => WattBoxOutletRebootOperation.AND);
+                await assert.rejects(client.setOutletRebootOperations(operations), { name: 'WattBoxArgumentError', message: 'Invalid Reboot Operation Count' });
+            }
+
+            assert.ok(simulator.state.outlets.every(x => x.rebootOperation === 0));
+        });
+
+        it('sets power on delays from 1 to 600 seconds', async () => {
+            const client = createClient();
+            await client.connect();
+
+            await client.setOutletPowerOnDelay(1, 1);
+            await client.setOutletPowerOnDelay(2, 600);
+            await client.setOutletPowerOnDelay(3, 30.7);
+            assert.deepEqual(simulator.state.outlets.slice(0, 3).map(x => x.powerOnDelay), [1, 600, 30]);
+
+            for (const delay of [0, 0.5, 601, -1, NaN]) {
+                await assert.rejects(client.setOutletPowerOnDelay(4, delay), { name: 'WattBoxArgumentError', message: 'Invalid Power On Delay' }, `delay ${delay}`);
+            }
+
+            assert.equal(simulator.state.outlets[3]?.powerOnDelay, 1);
+        });
+    });
+
+    describe('network', () => {
+        const dhcp: WattBoxNetworkSettings = { mode: WattBoxNetworkMode.DHCP, hostname: 'rack-1' };
+        const fixed: WattBoxNetworkSettings = { mode: WattBoxNetworkMode.STATIC, hostname: 'rack-1', ip: '192.168.1.50', subnet: '255.255.255.0', gateway: '192.168.1.1', dns1: '1.1.1.1' };
+
+        let commands: string[];
+
+        beforeEach(async () => {
+            await startSimulator();
+            commands = [];
+            simulator.on('command', command => commands.push(command));
+        });
+
+        it('rejects invalid settings without sending them', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const invalid: [WattBoxNetworkSettings, string][] = [
+                [{ ...dhcp, hostname: '' }, 'Invalid Hostname'],
+                [{ ...dhcp, hostname: '-rack' }, 'Invalid Hostname'],
+                [{ ...dhcp, hostname: 'rack 1' }, 'Invalid Hostname'],
+                [{ ...fixed, hostname: 'x'.repeat(64) }, 'Invalid Hostname'],
+                [{ ...fixed, ip: '192.168.1.256' }, 'Invalid IP Address'],
+                [{ ...fixed, gateway: 'router' }, 'Invalid IP Address'],
+                [{ ...fixed, dns2: '8.8.8' }, 'Invalid IP Address'],
+                [{ ...fixed, subnet: '255.0.255.0' }, 'Invalid Subnet'],
+                [{ ...fixed, subnet: '0.0.0.0' }, 'Invalid Subnet'],
+                [{ ...fixed, subnet: '255.255.255' }, 'Invalid Subnet']
+            ];
+
+            for (const [settings, message] of invalid) {
+                await assert.rejects(client.setNetwork(settings), { name: 'WattBoxArgumentError', message }, JSON.stringify(settings));
+            }
+
+            assert.ok(!commands.some(x => x.startsWith('!NetworkSet')));
+            assert.equal(client.state, 'ready');
+        });
+
+        it('sends DHCP settings and disconnects while the WattBox reboots', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const disconnected = once(client, 'disconnected');
+            await client.setNetwork(dhcp);
+            await disconnected;
+
+            assert.ok(commands.includes('!NetworkSet=rack-1'));
+            assert.deepEqual(simulator.state.network, dhcp);
+            assert.equal(client.state, 'closed');
+        });
+
+        it('sends static settings, with the secondary DNS server when set', async () => {
+            const client = createClient();
+            await client.connect();
+            await client.setNetwork(fixed);
+            assert.equal(client.state, 'closed');
+
+            await new Promise(resolve => setTimeout(resolve, 100));
+            await client.connect();
+            await client.setNetwork({ ...fixed, dns2: '8.8.4.4' });
+
+            assert.deepEqual(commands.filter(x => x.startsWith('!NetworkSet')), [
+                '!NetworkSet=rack-1,192.168.1.50,255.255.255.0,192.168.1.1,1.1.1.1',
+                '!NetworkSet=rack-1,192.168.1.50,255.255.255.0,192.168.1.1,1.1.1.1,8.8.4.4'
+            ]);
+            assert.deepEqual(simulator.state.network, { ...fixed, dns2: '8.8.4.4' });
+        });
+
+        it('follows a static IP address until logged in again', async () => {
+            const client = createClient({ reconnect: { baseDelay: 10 } });
+            await client.connect();
+
+            await client.setNetwork({ ...fixed, ip: '127.0.0.1' }, { follow: true, timeout: 5000 });
+            assert.equal(client.state, 'ready');
+            assert.equal(client.host, '127.0.0.1');
+            assert.equal(await client.getHostname(), 'rack-1');
+        });
+    });
+
+    describe('firmware', () => {
+        let directory: string;
+        let commands: string[];
+
+        const trackUpdate = (client: WattBoxClient) => {
+            const stages: WattBoxFirmwareUpdateStage[] = [];
+            client.on('firmwareUpdate', stage => stages.push(stage));
+            return stages;
+        };
+
+        beforeEach(async () => {
+            await startSimulator();
+            commands = [];
+            simulator.on('command', command => commands.push(command));
+            directory = await mkdtemp(join(tmpdir(), 'wattbox-firmware-'));
+        });
+
+        afterEach(async () => {
+            await rm(directory, { recursive: true, force: true });
+        });
+
+        it('rejects service commands before firmware 2.0', async () => {
+            simulator.state.firmware = '1.3.0.4';
+            const client = createClient();
+            await client.connect();
+
+            await assert.rejects(client.setTelnet(false), WattBoxUnsupportedError);
+            await assert.rejects(client.setSDDP(true), WattBoxUnsupportedError);
+            await assert.rejects(client.setWebServer(false), WattBoxUnsupportedError);
+            assert.ok(!commands.some(x => x.startsWith('!')));
+        });
+
+        it('serves a local firmware file and verifies the new version', async () => {
+            const client = createClient({ reconnect: { baseDelay: 10 } });
+            await client.connect();
+            const stages = trackUpdate(client);
+
+            const path = join(directory, 'wattbox 2.0.0.1.bin');
+            await writeFile(path, 'firmware');
+
+            assert.equal(await client.updateFirmware(path, { timeout: 5000 }), '2.0.0.1');
+            assert.deepEqual(stages, [WattBoxFirmwareUpdateStage.SENT, WattBoxFirmwareUpdateStage.OFFLINE, WattBoxFirmwareUpdateStage.ONLINE, WattBoxFirmwareUpdateStage.VERIFIED]);
+            assert.equal(client.state, 'ready');
+            assert.equal(client.capabilities?.firmware, '2.0.0.1');
+            assert.ok(commands.some(x => /^!FirmwareUpdate=http:\/\/127\.0\.0\.1:\d+\/wattbox%202\.0\.0\.1\.bin$/.test(x)), commands.join('\n'));
+        });
+
+        it('fails when the WattBox comes back with the same firmware version', async () => {
+            // The WattBox cannot download the firmware, so reboots into the current version
+            const client = createClient({ reconnect: { baseDelay: 10 } });
+            await client.connect();
+            const stages = trackUpdate(client);
+
+            await assert.rejects(client.updateFirmware('http://127.0.0.1:1/wattbox.bin', { timeout: 5000 }), { name: 'WattBoxError', message: 'Firmware Not Updated' });
+            assert.deepEqual(stages, [WattBoxFirmwareUpdateStage.SENT, WattBoxFirmwareUpdateStage.OFFLINE, WattBoxFirmwareUpdateStage.ONLINE]);
+            assert.ok(commands.includes('!FirmwareUpdate=http://127.0.0.1:1/wattbox.bin'));
+        });
+
+        it('rejects an update the WattBox rejects, or a missing local file', async () => {
+            const client = createClient();
+            await client.connect();
+            const stages = trackUpdate(client);
+
+            await assert.rejects(client.updateFirmware('https://example.com/wattbox 2.bin'), WattBoxDeviceError);
+            await assert.rejects(client.updateFirmware(join(directory, 'missing.bin')), { name: 'WattBoxArgumentError', message: 'Firmware File Not Found' });
+
+            assert.deepEqual(stages, []);
+            assert.equal(client.state, 'ready');
+            assert.equal(simulator.state.firmware, '2.0.0.0');
+        });
+    });
+
+    describe('schedules', () => {
+        beforeEach(() => startSimulator());
+
+        it('formats recurring and one-time schedules', async () => {
+            const client = createClient();
+            await client.connect();
+
+            await client.addSchedule({
+                name: ' Nightly ',
+                outlets: [2, 3],
+                action: WattBoxScheduleAction.RESET,
+                frequency: WattBoxScheduleFrequency.RECURRING,
+                days: [WattBoxScheduleDay.FRIDAY, WattBoxScheduleDay.MONDAY],
+                time: { hour: 3, minute: 5 }
+            });
+            await client.addSchedule({
+                name: 'Holiday',
+                outlets: [1],
+                action: WattBoxScheduleAction.OFF,
+                frequency: WattBoxScheduleFrequency.ONCE,
+                date: new Date(2025, 0, 9),
+                time: { hour: 23, minute: 59 }
+            });
+
+            assert.deepEqual(simulator.state.schedules, [
+                '{Nightly},{2,3},{2},{1},{0,1,0,0,0,1,0},{03:05}',
+                '{Holiday},{1},{0},{0},{2025/01/09},{23:59}'
+            ]);
+        });
+
+        it('rejects invalid schedules without sending them', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const schedule: WattBoxSchedule = {
+                name: 'Nightly',
+                outlets: [2],
+                action: WattBoxScheduleAction.ON,
+                frequency: WattBoxScheduleFrequency.RECURRING,
+                days: [WattBoxScheduleDay.SUNDAY],
+                time: { hour: 6, minute: 0 }
+            };
+
+            const invalid: [WattBoxSchedule, string][] = [
+                [{ ...schedule, name: '{Nightly}' }, 'Invalid Schedule Name'],
+                [{ ...schedule, name: ' ' }, 'Invalid Schedule Name'],
+                [{ ...schedule, outlets: [] }, 'Invalid Schedule Outlets'],
+                [{ ...schedule, outlets: [7] }, 'Invalid Schedule Outlets'],
+                [{ ...schedule, time: { hour: 24, minute: 0 } }, 'Invalid Schedule Time'],
+                [{ ...schedule, time: { hour: 6, minute: 1.5 } }, 'Invalid Schedule Time'],
+                [{ ...schedule, days: [] }, 'Invalid Schedule Days'],
+                [{ ...schedule, days: [7 as WattBoxScheduleDay] }, 'Invalid Schedule Days'],
+                [{ ...schedule, frequency: WattBoxScheduleFrequency.ONCE, date: new Date('invalid') }, 'Invalid Schedule Date']
+            ];
+
+            for (const [invalidSchedule, message] of invalid) {
+                await assert.rejects(client.addSchedule(invalidSchedule), { name: 'WattBoxArgumentError', message }, JSON.stringify(invalidSchedule));
+            }
+
+            assert.deepEqual(simulator.state.schedules, []);
+        });
+    });
+
+    describe('protected outlets', () => {
+        beforeEach(() => startSimulator());
+
+        const schedule: WattBoxSchedule = {
+            name: 'Nightly',
+            outlets: [2, 3],
+            action: WattBoxScheduleAction.RESET,
+            frequency: WattBoxScheduleFrequency.RECURRING,
+            days: [WattBoxScheduleDay.MONDAY],
+            time: { hour: 3, minute: 0 }
+        };
+
+        it('denies schedules and auto-reboot hosts on protected outlets', async () => {
+            const audit: WattBoxAuditEntry[] = [];
+            const client = createClient({ protectedOutlets: [3], overrideToken: 'override', audit: entry => audit.push(entry) });
+            await client.connect();
+
+            await assert.rejects(client.addSchedule(schedule, { actor: 'jane' }), WattBoxProtectedError);
+            await assert.rejects(client.addAutoRebootHost({ name: 'Router', address: '192.168.1.1', outlets: [1, 3] }), WattBoxProtectedError);
+            assert.deepEqual(simulator.state.schedules, []);
+            assert.deepEqual(simulator.state.autoRebootHosts, []);
+            assert.deepEqual(audit.map(x => [x.actor, x.command.split('=')[0], x.result]), [['jane', '!ScheduleAdd', 'denied'], [null, '!HostAdd', 'denied']]);
+
+            await client.addSchedule(schedule, { override: 'override' });
+            await client.addAutoRebootHost({ name: 'Router', address: '192.168.1.1', outlets: [1, 2] });
+            assert.equal(simulator.state.schedules.length, 1);
+            assert.equal(simulator.state.autoRebootHosts.length, 1);
+        });
+
+        it('requires the override for outlet 0 whenever an override token is configured', async () => {
+            const client = createClient({ overrideToken: 'override' });
+            await client.connect();
+
+            await assert.rejects(client.setOutletAction(0, WattBoxOutletAction.RESET), WattBoxProtectedError);
+            assert.ok(simulator.state.outlets.every(x => x.on));
+            await client.setOutletAction(1, WattBoxOutletAction.OFF);
+            assert.deepEqual(await client.getOutletStatus(), [false, true, true, true, true, true]);
+
+            await client.setOutletAction(0, WattBoxOutletAction.RESET, { override: 'override' });
+            assert.ok(simulator.state.outlets.every(x => !x.on));
+        });
+
+        it('leaves outlet 0 unprotected without protected outlets or an override token', async () => {
+            const client = createClient();
+            await client.connect();
+
+            await client.setOutletAction(0, WattBoxOutletAction.RESET);
+            assert.ok(simulator.state.outlets.every(x => !x.on));
+        });
+    });
+
+    describe('reconnect', { timeout: 10000 }, () => {
+        it('gives up after the maximum attempts when connections are dropped before login', async () => {
+            await startSimulator({ maxSessions: 0 });
+            const client = createClient({ reconnect: { baseDelay: 10, maxAttempts: 2 } });
+
+            const attempts: number[] = [];
+            client.on('reconnecting', attempt => attempts.push(attempt));
+            const failed = once(client, 'reconnectFailed');
+
+            await assert.rejects(client.connect(), WattBoxNotConnectedError);
+            assert.deepEqual(await failed, [2]);
+            assert.deepEqual(attempts, [1, 2]);
+            assert.equal(client.state, 'closed');
+        });
+
+        it('reconnects with a function policy until it returns null', async () => {
+            await startSimulator({ maxSessions: 0 });
+            const policy: number[] = [];
+            const client = createClient({
+                reconnect: (attempt) => {
+                    policy.push(attempt);
+                    return attempt <= 3 ? 10 : null;
+                }
+            });
+
+            const failed = once(client, 'reconnectFailed');
+            await assert.rejects(client.connect(), WattBoxNotConnectedError);
+            assert.deepEqual(await failed, [3]);
+            assert.deepEqual(policy, [1, 2, 3, 4]);
+        });
+
+        it('resets the attempts after logging in again', async () => {
+            await startSimulator();
+            const client = createClient({ reconnect: { baseDelay: 10, maxAttempts: 1 } });
+            await client.connect();
+
+            for (let i = 0; i < 2; i++) {
+                const ready = once(client, 'ready');
+                simulator.injectFault({ type: 'drop', command: '?Model', count: 1 });
+                await assert.rejects(client.getModel(), WattBoxNotConnectedError);
+                await ready;
+            }
+
+            assert.equal(client.state, 'ready');
+        });
+
+        it('forces a reconnect after the heartbeat misses the maximum', async () => {
+            await startSimulator();
+            const client = createClient({ timeout: 100, heartbeat: { interval: 50, maxMissed: 2 }, reconnect: { baseDelay: 10, maxAttempts: 1 } });
+            await client.connect();
+
+            const missed: number[] = [];
+            client.on('heartbeatMissed', count => missed.push(count));
+
+            const disconnected = once(client, 'disconnected');
+            simulator.injectFault({ type: 'delay', command: '?Firmware', count: 2, delay: 1000 });
+            await disconnected;
+            assert.deepEqual(missed, [1, 2]);
+
+            await once(client, 'ready');
+            assert.equal(client.state, 'ready');
+            assert.equal(await client.getFirmware(), '2.0.0.0');
+        });
+    });
+
+    describe('stale connections', () => {
+        beforeEach(() => startSimulator());
+
+        it('ignores the closing connection when connecting again while disconnecting', async () => {
+            const client = createClient({ reconnect: { baseDelay: 10 } });
+            await client.connect();
+
+            let logins = 0;
+            simulator.on('login', () => logins++);
+
+            const events: string[] = [];
+            for (const event of ['ready', 'disconnected', 'reconnecting'] as const) {
+                client.on(event, () => events.push(event));
+            }
+
+            void client.disconnect();
+            await client.connect();
+            await new Promise(resolve => setTimeout(resolve, 300));
+
+            assert.equal(client.state, 'ready');
+            assert.equal(logins, 1);
+            assert.deepEqual(events, ['ready']);
+            assert.equal(await client.getModel(), 'WB-800-IPVM-6');
+        });
+
+        it('emits disconnected once the disconnected connection closes', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const disconnected = once(client, 'disconnected');
+            await client.disconnect();
+            await disconnected;
+            assert.equal(client.state, 'closed');
+        });
+    });
+
+    describe('account', () => {
+        beforeEach(() => startSimulator());
+
+        it('logs back in with the new credentials without reconnecting under the policy', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const changed = once(client, 'credentialsChanged');
+
+            await client.setAccount('admin', 'secret1');
+            assert.deepEqual(await changed, ['admin']);
+            assert.equal(simulator.state.username, 'admin');
+            assert.equal(simulator.state.password, 'secret1');
+            assert.equal(client.state, 'ready');
+            assert.equal(await client.getModel(), 'WB-800-IPVM-6');
+        });
+
+        it('redacts the new password from debug messages', async () => {
+            const client = createClient();
+            await client.connect();
+
+            const messages: string[] = [];
+            client.on('debugmsg', message => messages.push(message));
+
+            await client.setAccount('admin', 'secret1');
+            assert.ok(messages.includes('[--->] !AccountSet=admin,[REDACTED]'), messages.join('\n'));
+            assert.ok(!messages.some(x => x.includes('secret1')));
+        });
+
+        it('rejects with WattBoxCredentialsError when the new credentials are not accepted', async () => {
+            const client = createClient();
+            await client.connect();
+
+            simulator.on('command', (command) => {
+                if (command.startsWith('!AccountSet=')) {
+                    setImmediate(() => {
+                        simulator.state.password = 'other';
+                    });
+                }
+            });
+
+            await assert.rejects(client.setAccount('admin', 'secret1'), WattBoxCredentialsError);
+            assert.equal(client.state, 'closed');
+        });
+
+        it('rejects invalid credentials without sending them', async () => {
+            const client = createClient();
+            await client.connect();
+
+            await assert.rejects(client.setAccount('ad min', 'secret1'), WattBoxArgumentError);
+            await assert.rejects(client.setAccount('admin', 'fourteenchars!'), WattBoxArgumentError);
+            assert.equal(simulator.state.username, 'wattbox');
+        });
+    });
+});
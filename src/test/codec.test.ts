@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeWattBoxCommand, decodeWattBoxResponse, encodeWattBoxMessage, WattBoxLineFramer } from '../module.js';
+import type { WattBoxCommandMessage, WattBoxResponseMessage } from '../module.js';
+
+// Seeded, so a failing split can be reproduced
+const random = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const frame = (chunks: string[]) => {
+    const framer = new WattBoxLineFramer();
+    return chunks.flatMap(x => framer.push(x));
+};
+
+const names = Array.from({ length: 12 }, (_, i) => `{Outlet ${i + 1} ${'Rack Equipment '.repeat(8)}}`).join(',');
+
+const sessions: Record<string, string> = {
+    'login': 'Please Login to Continue\nUsername: Password: Successfully Logged In!\n?Firmware=2.0.0.0\n',
+    'login with CRLF': 'Please Login to Continue\r\nUsername: Password: Invalid Login\r\nUsername: Password: Successfully Logged In!\r\n',
+    'requests and controls': `?Model=WB-800-IPVM-12\n?OutletName=${names}\nOK\n~OutletStatus=1,0,1,1,1,1,1,1,1,1,1,1\n#Error\n?OutletPowerStatus=1,10.00,0.08,120.00\n`,
+    'long outlet names with CRLF': `?OutletName=${names}\r\n~OutletStatus=0,0,0,0,0,0,0,0,0,0,0,0\r\n?OutletName=${names}\r\n`
+};
+
+describe('WattBoxLineFramer', () => {
+    it('frames a login session into lines', () => {
+        assert.deepEqual(frame([sessions['login with CRLF'] ?? '']), ['Please Login to Continue', 'Username:', 'Password:', 'Invalid Login', 'Username:', 'Password:', 'Successfully Logged In!']);
+    });
+
+    for (const [name, session] of Object.entries(sessions)) {
+        const expected = frame([session]);
+
+        it(`frames a ${name} session split at every offset`, () => {
+            for (let offset = 0; offset <= session.length; offset++) {
+                assert.deepEqual(frame([session.slice(0, offset), session.slice(offset)]), expected, `split at ${offset}`);
+            }
+        });
+
+        it(`frames a ${name} session split at random offsets`, () => {
+            const next = random(name.length);
+
+            for (let i = 0; i < 500; i++) {
+                const chunks: string[] = [];
+                for (let offset = 0; offset < session.length;) {
+                    const length = 1 + Math.floor(next() * 16);
+                    chunks.push(session.slice(offset, offset + length));
+                    offset += length;
+                }
+
+                assert.deepEqual(frame(chunks), expected, JSON.stringify(chunks));
+            }
+        });
+    }
+
+    it('releases prompts split mid-token', () => {
+        const framer = new WattBoxLineFramer();
+        assert.deepEqual(framer.push('Username: Pass'), ['Username:']);
+        assert.equal(framer.pending, 'Pass');
+        assert.deepEqual(framer.push('word: '), ['Password:']);
+        assert.equal(framer.pending, '');
+    });
+
+    it('buffers a long line until it is terminated', () => {
+        const framer = new WattBoxLineFramer();
+        const line = `?OutletName=${names}`;
+
+        for (const chunk of line.match(/[^]{1,7}/g) ?? []) {
+            assert.deepEqual(framer.push(chunk), []);
+        }
+
+        assert.deepEqual(framer.push('\r\n'), [line]);
+    });
+});
+
+describe('encodeWattBoxMessage', () => {
+    const responses: WattBoxResponseMessage[] = [
+        { type: 'response', command: 'OutletName', value: names },
+        { type: 'unsolicited', command: 'OutletStatus', value: '1,0,1' },
+        { type: 'ok' },
+        { type: 'error' },
+        { type: 'prompt', prompt: 'login' },
+        { type: 'prompt', prompt: 'username' },
+        { type: 'prompt', prompt: 'password' },
+        { type: 'login', success: true },
+        { type: 'login', success: false },
+        { type: 'text', text: 'WattBox Firmware Update In Progress' }
+    ];
+
+    const commands: WattBoxCommandMessage[] = [
+        { type: 'request', command: 'Firmware', params: null },
+        { type: 'request', command: 'OutletPowerStatus', params: '1' },
+        { type: 'control', command: 'OutletSet', params: '1,ON' },
+        { type: 'control', command: 'Exit', params: null },
+        { type: 'text', text: 'wattbox' }
+    ];
+
+    for (const message of responses) {
+        it(`round-trips ${message.type} responses through the framer`, () => {
+            const lines = frame([encodeWattBoxMessage(message)]);
+            assert.deepEqual(lines.map(decodeWattBoxResponse), [message]);
+        });
+    }
+
+    for (const message of commands) {
+        it(`round-trips ${message.type} commands`, () => {
+            const lines = frame([encodeWattBoxMessage(message)]);
+            assert.deepEqual(lines.map(decodeWattBoxCommand), [message]);
+        });
+    }
+
+    it('round-trips a session of every response type, split at every offset', () => {
+        const session = responses.map(encodeWattBoxMessage).join('');
+
+        for (let offset = 0; offset <= session.length; offset++) {
+            const lines = frame([session.slice(0, offset), session.slice(offset)]);
+            assert.deepEqual(lines.map(decodeWattBoxResponse), responses, `split at ${offset}`);
+        }
+    });
+});
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { afterEach, describe, it } from 'node:test';
+import { WattBoxClient, WattBoxDevice, WattBoxNotConnectedError, WattBoxSimulator, WattBoxSimulatorProfiles } from '../module.js';
+import type { WattBoxDeviceSnapshot, WattBoxOutletChange, WattBoxSimulatorOpts } from '../module.js';
+
+describe('WattBoxDevice', () => {
+    let simulator: WattBoxSimulator;
+    let client: WattBoxClient;
+    let device: WattBoxDevice;
+
+    // Connects a client wrapped in a device, resolving once the device has synced
+    const start = async (opts: WattBoxSimulatorOpts = {}) => {
+        simulator = new WattBoxSimulator({ rebootDuration: 50, ...opts });
+        await simulator.listen();
+
+        client = new WattBoxClient({ host: '127.0.0.1', port: simulator.port, username: 'wattbox', password: 'wattbox', reconnect: { baseDelay: 10 } });
+        device = new WattBoxDevice(client);
+
+        const synced = once(device, 'sync') as Promise<[WattBoxDeviceSnapshot]>;
+        await client.connect();
+        return (await synced)[0];
+    };
+
+    const trackChanges = () => {
+        const changes: WattBoxOutletChange[] = [];
+        device.on('outletChanged', change => changes.push(change));
+        return changes;
+    };
+
+    afterEach(async () => {
+        device.dispose();
+        await client.disconnect();
+        await simulator.close();
+    });
+
+    it('syncs a snapshot once the client is ready', async () => {
+        const snapshot = await start();
+
+        assert.equal(device.snapshot, snapshot);
+        assert.equal(snapshot.model, 'WB-800-IPVM-6');
+        assert.equal(snapshot.serviceTag, simulator.state.serviceTag);
+        assert.equal(snapshot.firmware, '2.0.0.0');
+        assert.deepEqual(snapshot.outlets.map(x => [x.outlet, x.name, x.on]), simulator.state.outlets.map((x, i) => [i + 1, x.name, true]));
+        assert.equal(snapshot.powerMetrics?.watts, 60);
+        assert.deepEqual(snapshot.outlets.map(x => x.powerMetrics?.watts), [10, 10, 10, 10, 10, 10]);
+    });
+
+    it('leaves power metrics null on models without them', async () => {
+        const snapshot = await start({ profile: WattBoxSimulatorProfiles.WB250 });
+
+        assert.equal(snapshot.outlets.length, 2);
+        assert.equal(snapshot.powerMetrics, null);
+        assert.ok(snapshot.outlets.every(x => x.powerMetrics === null));
+    });
+
+    it('updates outlets from unsolicited status', async () => {
+        await start();
+        const changes = trackChanges();
+
+        const changed = once(device, 'outletChanged');
+        simulator.setOutletStatus(2, false);
+        await changed;
+
+        assert.deepEqual(changes, [{ outlet: 2, name: 'Outlet 2', previous: true, current: false }]);
+        assert.equal(device.snapshot?.outlets[1]?.on, false);
+    });
+
+    it('emits changes missed while disconnected once resynced', async () => {
+        await start();
+        const changes = trackChanges();
+
+        // Changed without a status broadcast, then the connection drops
+        const outlet = simulator.state.outlets[3];
+        assert.ok(outlet);
+        outlet.on = false;
+
+        const synced = once(device, 'sync');
+        simulator.injectFault({ type: 'drop', command: '?Model', count: 1 });
+        await assert.rejects(client.getModel(), WattBoxNotConnectedError);
+        await synced;
+
+        assert.deepEqual(changes, [{ outlet: 4, name: 'Outlet 4', previous: true, current: false }]);
+    });
+
+    it('stops tracking the client once disposed', async () => {
+        await start();
+        const changes = trackChanges();
+
+        device.dispose();
+        simulator.setOutletStatus(1, false);
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        assert.deepEqual(changes, []);
+        assert.equal(device.snapshot?.outlets[0]?.on, true);
+        assert.equal(client.listenerCount('outletStatus'), 0);
+    });
+});
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { createSocket } from 'node:dgram';
+import { once } from 'node:events';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { discoverWattBoxes, WattBoxDiscovery } from '../module.js';
+import type { WattBoxDiscoveryRecord } from '../module.js';
+
+describe('WattBoxDiscovery', () => {
+    // Not the SDDP port, so a real device on the LAN does not interfere
+    const port = 19020;
+    let discovery: WattBoxDiscovery;
+
+    const send = async (message: string) => {
+        const socket = createSocket('udp4');
+        await new Promise<void>((resolve, reject) => socket.send(message, port, '127.0.0.1', err => err ? reject(err) : resolve()));
+        socket.close();
+    };
+
+    const packet = (startLine: string, headers: Record<string, string | number>) =>
+        `${startLine}\r\n${Object.entries(headers).map(([key, value]) => `${key}: ${typeof value === 'string' ? `"${value}"` : value}\r\n`).join('')}\r\n`;
+
+    const alive = (ip: string, headers: Record<string, string | number> = {}) => packet('NOTIFY ALIVE SDDP/1.0', {
+        'From': `${ip}:1902`,
+        'Host': `WattBox-${ip.split('.').pop() ?? ''}`,
+        'Type': 'snapav:wattbox',
+        'Manufacturer': 'SnapAV',
+        'Model': 'WB-800-IPVM-12',
+        'Max-Age': 1800,
+        ...headers
+    });
+
+    beforeEach(() => {
+        discovery = new WattBoxDiscovery({ port, search: false, username: 'wattbox', password: 'secret' });
+    });
+
+    afterEach(() => {
+        discovery.stop();
+    });
+
+    it('finds, updates and loses devices', async () => {
+        await discovery.start();
+
+        const found = once(discovery, 'found');
+        await send(alive('10.0.0.5', { Serial: 'ST123', Firmware: '2.1.0.0' }));
+        const [record] = await found as [WattBoxDiscoveryRecord];
+
+        assert.equal(record.ip, '10.0.0.5');
+        assert.equal(record.hostname, 'WattBox-5');
+        assert.equal(record.model, 'WB-800-IPVM-12');
+        assert.equal(record.serviceTag, 'ST123');
+        assert.equal(record.firmware, '2.1.0.0');
+        assert.deepEqual(record.clientOpts, { host: '10.0.0.5', username: 'wattbox', password: 'secret' });
+
+        // Details missing from a later announcement are kept
+        const updated = once(discovery, 'updated');
+        await send(alive('10.0.0.5'));
+        const [update] = await updated as [WattBoxDiscoveryRecord];
+        assert.equal(update.serviceTag, 'ST123');
+        assert.equal(update.firmware, '2.1.0.0');
+
+        const lost = once(discovery, 'lost');
+        await send(packet('NOTIFY OFFLINE SDDP/1.0', { From: '10.0.0.5:1902', Type: 'snapav:wattbox' }));
+        assert.equal((await lost as [WattBoxDiscoveryRecord])[0].ip, '10.0.0.5');
+        assert.deepEqual(discovery.devices, []);
+    });
+
+    it('finds devices responding to a search', async () => {
+        await discovery.start();
+
+        const found = once(discovery, 'found');
+        await send(packet('SDDP/1.0 200 OK', { From: '10.0.0.7:1902', Type: 'snapav:WB-300-IP-3' }));
+        const [record] = await found as [WattBoxDiscoveryRecord];
+
+        assert.equal(record.ip, '10.0.0.7');
+        assert.equal(record.model, 'WB-300-IP-3');
+        assert.equal(record.serviceTag, null);
+    });
+
+    it('ignores other SDDP devices', async () => {
+        await discovery.start();
+        discovery.on('found', device => assert.fail(`Unexpected device ${device.ip}`));
+
+        await send(packet('NOTIFY ALIVE SDDP/1.0', { From: '10.0.0.9:1902', Type: 'c4:light', Model: 'LDZ-101' }));
+        await new Promise(resolve => setTimeout(resolve, 200));
+        assert.deepEqual(discovery.devices, []);
+    });
+
+    it('loses devices that are not seen again within their max age', async () => {
+        await discovery.start();
+
+        const found = once(discovery, 'found');
+        await send(alive('10.0.0.6', { 'Max-Age': 1 }));
+        await found;
+
+        const start = Date.now();
+        await once(discovery, 'lost');
+        assert.ok(Date.now() - start >= 900);
+        assert.deepEqual(discovery.devices, []);
+    });
+
+    it('builds no client options without credentials', async () => {
+        discovery = new WattBoxDiscovery({ port, search: false });
+        await discovery.start();
+
+        const found = once(discovery, 'found');
+        await send(alive('10.0.0.8'));
+        assert.equal((await found as [WattBoxDiscoveryRecord])[0].clientOpts, null);
+    });
+
+    it('discovers devices within the time window', async () => {
+        const start = Date.now();
+        const discovered = discoverWattBoxes({ port, search: false, timeout: 500 });
+
+        await new Promise(resolve => setTimeout(resolve, 100));
+        await send(alive('10.0.0.10'));
+
+        const devices = await discovered;
+        const elapsed = Date.now() - start;
+
+        assert.deepEqual(devices.map(x => x.ip), ['10.0.0.10']);
+        assert.ok(elapsed >= 500 && elapsed < 1500, `returned after ${elapsed}ms`);
+    });
+});
@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { WattBoxClient, WattBoxEnergyMeter, WattBoxSimulator } from '../module.js';
+
+describe('WattBoxEnergyMeter', () => {
+    // A local time, so hourly and daily rollups line up with the exported times
+    const start = new Date(2024, 0, 15, 10, 30).getTime();
+    const minutes = (count: number) => count * 60000;
+
+    let simulator: WattBoxSimulator;
+    let client: WattBoxClient;
+    let directory: string;
+    let commands: string[];
+
+    beforeEach(async () => {
+        simulator = new WattBoxSimulator();
+        await simulator.listen();
+
+        commands = [];
+        simulator.on('command', command => commands.push(command));
+
+        client = new WattBoxClient({ host: '127.0.0.1', port: simulator.port, username: 'wattbox', password: 'wattbox', reconnect: { maxAttempts: 0 } });
+        await client.connect();
+
+        directory = await mkdtemp(join(tmpdir(), 'wattbox-energy-'));
+        mock.timers.enable({ apis: ['Date'], now: start });
+    });
+
+    afterEach(async () => {
+        mock.timers.reset();
+        await client.disconnect();
+        await simulator.close();
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('integrates watts between samples into energy', async () => {
+        const meter = new WattBoxEnergyMeter(client, { interval: minutes(30) });
+
+        // 60W from six outlets, then 120W from outlet 1 alone
+        await meter.poll();
+        mock.timers.setTime(start + minutes(30));
+        simulator.state.outlets.forEach((x, i) => {
+            x.watts = i === 0 ? 120 : 0;
+        });
+        await meter.poll();
+
+        assert.deepEqual(meter.totals.map(x => [x.outlet, x.wh]), [[null, 45], [1, 32.5], [2, 2.5], [3, 2.5], [4, 2.5], [5, 2.5], [6, 2.5]]);
+        assert.equal(meter.totals[0]?.kwh, 0.045);
+    });
+
+    it('does not integrate across a gap, a disconnect or a stop', async () => {
+        const meter = new WattBoxEnergyMeter(client, { interval: minutes(1), maxGap: minutes(5), outlets: false });
+
+        await meter.poll();
+        mock.timers.setTime(start + minutes(10));
+        await meter.poll();
+        assert.equal(meter.totals[0]?.wh, 0);
+
+        await client.disconnect();
+        await client.connect();
+        mock.timers.setTime(start + minutes(11));
+        await meter.poll();
+        assert.equal(meter.totals[0]?.wh, 0);
+
+        meter.stop();
+        mock.timers.setTime(start + minutes(12));
+        await meter.poll();
+        assert.equal(meter.totals[0]?.wh, 0);
+
+        mock.timers.setTime(start + minutes(13));
+        await meter.poll();
+        assert.equal(meter.totals[0]?.wh, 1);
+    });
+
+    it('persists the totals to the store', async () => {
+        const store = join(directory, 'energy.json');
+        const meter = new WattBoxEnergyMeter(client, { interval: minutes(60), outlets: false, store });
+
+        await meter.poll();
+        mock.timers.setTime(start + minutes(60));
+        await meter.poll();
+
+        const saved = JSON.parse(await readFile(store, 'utf8')) as { version: number };
+        assert.equal(saved.version, 1);
+
+        const restored = new WattBoxEnergyMeter(client, { outlets: false, store });
+        await restored.load();
+        assert.deepEqual(restored.totals, [{ outlet: null, wh: 60, kwh: 0.06 }]);
+        assert.deepEqual(restored.rollups('hour'), meter.rollups('hour'));
+    });
+
+    it('exports hourly and daily rollups as CSV and JSON', async () => {
+        const meter = new WattBoxEnergyMeter(client, { interval: minutes(60), outlets: false, tariff: [{ price: 0.5, from: 11 }] });
+
+        await meter.poll();
+        mock.timers.setTime(start + minutes(60));
+        await meter.poll();
+
+        // Split across the hours the samples span, with a cost only in the hour the tariff covers
+        assert.equal(meter.export('hour', 'csv'), [
+            'start,outlet,wh,kwh,cost',
+            '2024-01-15 10:00,device,30.000,0.030000,0.0000',
+            '2024-01-15 11:00,device,30.000,0.030000,0.0150',
+            ''
+        ].join('\n'));
+        assert.equal(meter.export('day', 'csv'), 'start,outlet,wh,kwh,cost\n2024-01-15,device,60.000,0.060000,0.0150\n');
+
+        const rollups = JSON.parse(meter.export('day', 'json')) as unknown;
+        assert.deepEqual(rollups, [{ start: new Date(2024, 0, 15).toISOString(), outlet: null, wh: 60, kwh: 0.06, cost: 0.015 }]);
+    });
+
+    it('samples in a single loop when restarted while a sample is in flight', async () => {
+        mock.timers.reset();
+        const meter = new WattBoxEnergyMeter(client, { interval: 100, outlets: false });
+        meter.start();
+        await once(simulator, 'command');
+
+        meter.stop();
+        meter.start();
+        await new Promise(resolve => setTimeout(resolve, 550));
+        meter.dispose();
+
+        const samples = commands.filter(x => x === '?PowerStatus').length;
+        assert.ok(samples >= 5 && samples <= 8, `${samples} samples`);
+    });
+
+    it('detaches from the client when disposed', () => {
+        const listeners = client.listenerCount('disconnected');
+        const meter = new WattBoxEnergyMeter(client);
+        assert.equal(client.listenerCount('disconnected'), listeners + 1);
+
+        meter.dispose();
+        assert.equal(client.listenerCount('disconnected'), listeners);
+    });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { WattBoxClient, WattBoxDevice, WattBoxExporter, WattBoxSimulator } from '../module.js';
+
+describe('WattBoxExporter', () => {
+    let simulator: WattBoxSimulator;
+    let client: WattBoxClient;
+    let device: WattBoxDevice;
+    let exporter: WattBoxExporter;
+    let commands: string[];
+
+    const scrape = async () => {
+        const res = await fetch(`http://127.0.0.1:${exporter.port}/metrics`);
+        return { status: res.status, body: await res.text() };
+    };
+
+    beforeEach(async () => {
+        simulator = new WattBoxSimulator();
+        await simulator.listen();
+
+        commands = [];
+        simulator.on('command', command => commands.push(command));
+
+        client = new WattBoxClient({ host: '127.0.0.1', port: simulator.port, username: 'wattbox', password: 'wattbox', reconnect: { maxAttempts: 0 } });
+        await client.connect();
+        device = new WattBoxDevice(client);
+    });
+
+    afterEach(async () => {
+        await exporter.close();
+        device.dispose();
+        await client.disconnect();
+        await simulator.close();
+    });
+
+    it('serves the collected metrics', async () => {
+        exporter = new WattBoxExporter({ port: 0, host: '127.0.0.1', collectOnScrape: true });
+        exporter.addDevice(device);
+        await exporter.listen();
+
+        const { status, body } = await scrape();
+        const labels = `host="127.0.0.1",model="WB-800-IPVM-6",service_tag="${simulator.state.serviceTag}"`;
+
+        assert.equal(status, 200);
+        assert.match(body, /^# HELP wattbox_up .+\n# TYPE wattbox_up gauge\n/);
+        assert.ok(body.includes(`wattbox_up{${labels}} 1\n`), body);
+        assert.ok(body.includes(`wattbox_info{${labels},firmware="2.0.0.0"} 1\n`), body);
+        assert.match(body, /^wattbox_power_watts\{.+\} [\d.]+$/m);
+        assert.equal(body.match(/^wattbox_outlet_on\{/gm)?.length, 6);
+        assert.equal(body.match(/^wattbox_outlet_power_watts\{/gm)?.length, 6);
+        assert.ok(!body.includes('wattbox_ups_'));
+        assert.equal((await fetch(`http://127.0.0.1:${exporter.port}/other`)).status, 404);
+    });
+
+    it('collects UPS metrics only while a UPS is connected', async () => {
+        exporter = new WattBoxExporter({ port: 0, host: '127.0.0.1', collectOnScrape: true });
+        exporter.addDevice(device);
+        await exporter.listen();
+
+        await scrape();
+        assert.ok(commands.includes('?UPSConnection'));
+        assert.ok(!commands.includes('?UPSStatus'));
+
+        simulator.state.ups = { batteryCharge: 90, batteryLoad: 20, batteryHealthy: true, powerLost: false, batteryRuntime: 30, alarmEnabled: true, alarmMuted: false };
+        const { body } = await scrape();
+        assert.match(body, /^wattbox_ups_battery_charge_percent\{.+\} 90$/m);
+        assert.match(body, /^wattbox_ups_battery_healthy\{.+\} 1$/m);
+    });
+
+    it('reports a disconnected device as down', async () => {
+        exporter = new WattBoxExporter({ port: 0, host: '127.0.0.1', collectOnScrape: true });
+        exporter.addDevice(device);
+        await exporter.listen();
+
+        await client.disconnect();
+        const { body } = await scrape();
+        assert.match(body, /^wattbox_up\{.+\} 0$/m);
+        assert.ok(!body.includes('wattbox_last_collect_timestamp_seconds'));
+    });
+
+    it('stops collecting in the background once closed', async () => {
+        exporter = new WattBoxExporter({ port: 0, host: '127.0.0.1', interval: 20 });
+        exporter.addDevice(device);
+        await exporter.listen();
+
+        // The first collection is still in flight, it finishes but does not schedule another
+        await exporter.close();
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const closed = commands.length;
+        assert.ok(closed > 0);
+
+        await new Promise(resolve => setTimeout(resolve, 200));
+        assert.equal(commands.length, closed);
+    });
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { WattBoxDeviceError, WattBoxFleet, WattBoxNotConnectedError, WattBoxOutletAction, WattBoxSimulator } from '../module.js';
+import type { WattBoxClientOpts } from '../module.js';
+
+describe('WattBoxFleet', () => {
+    let simulators: WattBoxSimulator[];
+    let fleet: WattBoxFleet;
+
+    // Two simulators on different loopback addresses, and a third device nothing listens for
+    const clientOpts = (): WattBoxClientOpts[] => [
+        ...simulators.map((x, i) => ({ host: `127.0.0.${i + 1}`, port: x.port })),
+        { host: '127.0.0.3', port: 1 }
+    ].map(x => ({ ...x, username: 'wattbox', password: 'wattbox', timeout: 1000, reconnect: { maxAttempts: 0 } }));
+
+    const connect = async () => {
+        const synced = fleet.devices.slice(0, 2).map(x => once(x, 'sync'));
+        const results = await fleet.connect();
+        await Promise.all(synced);
+        return results;
+    };
+
+    beforeEach(async () => {
+        simulators = [new WattBoxSimulator({ host: '127.0.0.1' }), new WattBoxSimulator({ host: '127.0.0.2' })];
+        await Promise.all(simulators.map(x => x.listen()));
+
+        simulators.forEach((x, i) => {
+            x.state.serviceTag = `ST${i + 1}`;
+            const outlet = x.state.outlets[i];
+            if (outlet) {
+                outlet.name = 'Router';
+            }
+        });
+
+        fleet = new WattBoxFleet(clientOpts());
+    });
+
+    afterEach(async () => {
+        await fleet.disconnect();
+        await Promise.all(simulators.map(x => x.close()));
+    });
+
+    it('connects and queries every device, with a result per device', async () => {
+        const connected = await connect();
+        assert.deepEqual(connected.map(x => [x.host, x.ok]), [['127.0.0.1', true], ['127.0.0.2', true], ['127.0.0.3', false]]);
+
+        const models = await fleet.query(device => device.client.getModel());
+        assert.deepEqual(models.map(x => x.ok ? [x.serviceTag, x.value] : [x.host, x.error.name]), [
+            ['ST1', 'WB-800-IPVM-6'],
+            ['ST2', 'WB-800-IPVM-6'],
+            ['127.0.0.3', 'WattBoxNotConnectedError']
+        ]);
+
+        const health = fleet.health();
+        assert.deepEqual([health.total, health.connected, health.disconnected], [3, 2, 1]);
+    });
+
+    it('sets outlets by name across the fleet, reporting a failure per outlet', async () => {
+        await connect();
+
+        simulators[1]?.injectFault({ type: 'error', command: '!OutletSet', count: 1 });
+        const results = await fleet.setOutletAction('router', WattBoxOutletAction.OFF);
+
+        assert.equal(results.length, 2);
+        assert.deepEqual(results[0], { host: '127.0.0.1', serviceTag: 'ST1', ok: true, value: 1 });
+        assert.ok(results[1] && !results[1].ok && results[1].error instanceof WattBoxDeviceError);
+        assert.equal(simulators[0]?.state.outlets[0]?.on, false);
+    });
+
+    it('addresses outlets by host or service tag and outlet number or name', async () => {
+        await connect();
+
+        assert.deepEqual(fleet.resolveOutlets('127.0.0.2:Router').map(x => [x.device.client.host, x.outlet]), [['127.0.0.2', 2]]);
+        assert.deepEqual(fleet.resolveOutlets('ST1:4').map(x => [x.device.client.host, x.outlet]), [['127.0.0.1', 4]]);
+
+        const results = await fleet.setOutletAction('127.0.0.3:1', WattBoxOutletAction.OFF);
+        assert.ok(results[0] && !results[0].ok && results[0].error instanceof WattBoxNotConnectedError);
+
+        await assert.rejects(fleet.setOutletAction('Projector', WattBoxOutletAction.OFF), { name: 'WattBoxArgumentError', message: 'Unknown Outlet' });
+    });
+
+    it('queries at most the concurrency limit of devices at once', async () => {
+        fleet = new WattBoxFleet(clientOpts(), { concurrency: 2 });
+
+        let active = 0;
+        let maxActive = 0;
+        const results = await fleet.query(async () => {
+            maxActive = Math.max(maxActive, ++active);
+            await new Promise(resolve => setTimeout(resolve, 20));
+            active--;
+        });
+
+        assert.equal(results.length, 3);
+        assert.equal(maxActive, 2);
+    });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { after, before, describe, it } from 'node:test';
+import { WattBoxClient, WattBoxGateway, WattBoxOutletAction, WattBoxSimulator } from '../module.js';
+import type { WattBoxAuditEntry, WattBoxGatewayMessage } from '../module.js';
+
+describe('WattBoxGateway', () => {
+    let gateway: WattBoxGateway;
+
+    const request = async (path: string, token?: string, method = 'GET', body?: unknown) => {
+        const res = await fetch(`http://127.0.0.1:${gateway.port}${path}`, {
+            method,
+            headers: token !== undefined ? { authorization: `Bearer ${token}` } : {},
+            ...(body !== undefined ? { body: JSON.stringify(body) } : {})
+        });
+        return { status: res.status, body: await res.json() as unknown };
+    };
+
+    before(async () => {
+        gateway = new WattBoxGateway({ port: 0, interval: 0, tokens: [{ token: 'r', permission: 'read' }, { token: 'c', permission: 'control', name: 'jane' }] });
+        await gateway.listen();
+    });
+
+    after(async () => {
+        await gateway.close();
+    });
+
+    it('authorizes a known token', async () => {
+        assert.deepEqual(await request('/devices', 'r'), { status: 200, body: [] });
+    });
+
+    it('rejects a missing or unknown token with 401', async () => {
+        for (const token of [undefined, '', 'w', 'rr', 'é']) {
+            const { status, body } = await request('/devices', token);
+            assert.equal(status, 401, `token ${token}`);
+            assert.deepEqual(body, { error: { code: 'UNAUTHORIZED', message: 'Unauthorized' } });
+        }
+    });
+
+    it('rejects a stream without a known token', async () => {
+        const socket = new WebSocket(`ws://127.0.0.1:${gateway.port}/stream?token=x`);
+        let opened = false;
+        socket.addEventListener('open', () => {
+            opened = true;
+        });
+
+        // The handshake is refused, so the socket errors without opening
+        await once(socket, 'error');
+        assert.equal(opened, false);
+    });
+
+    it('rejects a malformed path with 400', async () => {
+        assert.deepEqual(await request('/devices/%E0%A4%A', 'r'), { status: 400, body: { error: { code: 'INVALID_ARGUMENT', message: 'Invalid Path' } } });
+    });
+
+    describe('with a device', () => {
+        let simulator: WattBoxSimulator;
+        let client: WattBoxClient;
+        let host: string;
+        const audit: WattBoxAuditEntry[] = [];
+
+        before(async () => {
+            simulator = new WattBoxSimulator();
+            await simulator.listen();
+
+            client = new WattBoxClient({ host: '127.0.0.1', port: simulator.port, username: 'wattbox', password: 'wattbox', reconnect: { maxAttempts: 0 }, audit: entry => audit.push(entry) });
+            await client.connect();
+            gateway.addDevice(client);
+            host = encodeURIComponent(client.host);
+        });
+
+        after(async () => {
+            gateway.removeDevice(client);
+            await client.disconnect();
+            await simulator.close();
+        });
+
+        it('rejects control routes for a read-only token with 403', async () => {
+            assert.deepEqual(await request(`/devices/${host}/outlets/2/action`, 'r', 'POST', { action: 'off' }), {
+                status: 403,
+                body: { error: { code: 'FORBIDDEN', message: 'Control Permission Required' } }
+            });
+            assert.equal(simulator.state.outlets[1]?.on, true);
+        });
+
+        it('sends control routes to the device for a control token', async () => {
+            assert.deepEqual(await request(`/devices/${host}/outlets/2/action`, 'c', 'POST', { action: 'off' }), { status: 200, body: { ok: true } });
+            assert.equal(simulator.state.outlets[1]?.on, false);
+            assert.deepEqual(audit.map(x => [x.actor, x.command, x.result]), [['jane', '!OutletSet=2,OFF', 'ok']]);
+
+            const { body } = await request(`/devices/${host}/outlets`, 'r');
+            assert.deepEqual((body as { on: boolean }[]).map(x => x.on), [true, false, true, true, true, true]);
+        });
+
+        it('streams outlet status over a WebSocket', async () => {
+            const socket = new WebSocket(`ws://127.0.0.1:${gateway.port}/stream?token=r`);
+            await once(socket, 'open');
+
+            const message = once(socket, 'message') as Promise<[MessageEvent<string>]>;
+            await client.setOutletAction(2, WattBoxOutletAction.ON);
+            const [event] = await message;
+
+            assert.deepEqual(JSON.parse(event.data) as WattBoxGatewayMessage, { type: 'outletStatus', host: client.host, outlets: [true, true, true, true, true, true] });
+
+            const closed = once(socket, 'close');
+            socket.close();
+            await closed;
+        });
+    });
+});
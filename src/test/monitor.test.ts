@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { WattBoxClient, WattBoxMonitor, WattBoxSimulator } from '../module.js';
+import type { WattBoxUPSMetrics } from '../module.js';
+
+describe('WattBoxMonitor', () => {
+    let simulator: WattBoxSimulator;
+    let client: WattBoxClient;
+    let commands: string[];
+
+    beforeEach(async () => {
+        simulator = new WattBoxSimulator();
+        await simulator.listen();
+
+        commands = [];
+        simulator.on('command', command => commands.push(command));
+
+        client = new WattBoxClient({ host: '127.0.0.1', port: simulator.port, username: 'wattbox', password: 'wattbox', reconnect: { maxAttempts: 0 } });
+        await client.connect();
+    });
+
+    afterEach(async () => {
+        await client.disconnect();
+        await simulator.close();
+    });
+
+    it('skips UPS metrics without a UPS connected', async () => {
+        const monitor = new WattBoxMonitor(client, { powerMetrics: false, outletPowerMetrics: false });
+        const errors: Error[] = [];
+        monitor.on('pollError', err => errors.push(err));
+        monitor.on('upsMetrics', () => assert.fail('Unexpected UPS metrics'));
+
+        await monitor.poll();
+
+        assert.deepEqual(errors, []);
+        assert.ok(commands.includes('?UPSConnection'));
+        assert.ok(!commands.includes('?UPSStatus'));
+    });
+
+    it('polls UPS metrics while a UPS is connected', async () => {
+        const ups: WattBoxUPSMetrics = { batteryCharge: 90, batteryLoad: 20, batteryHealthy: true, powerLost: false, batteryRuntime: 30, alarmEnabled: true, alarmMuted: false };
+        simulator.state.ups = ups;
+
+        const monitor = new WattBoxMonitor(client, { powerMetrics: false, outletPowerMetrics: false });
+        const samples: WattBoxUPSMetrics[] = [];
+        monitor.on('upsMetrics', metrics => samples.push(metrics));
+
+        await monitor.poll();
+
+        assert.deepEqual(samples, [ups]);
+    });
+
+    it('polls in a single loop when restarted while a poll is in flight', async () => {
+        const monitor = new WattBoxMonitor(client, { interval: 100, powerMetrics: false, outletPowerMetrics: false });
+        monitor.start();
+        await once(simulator, 'command');
+
+        monitor.stop();
+        monitor.start();
+        await new Promise(resolve => setTimeout(resolve, 550));
+        monitor.stop();
+
+        // The poll in flight and about six more, not a second loop polling alongside
+        const polls = commands.filter(x => x === '?UPSConnection').length;
+        assert.ok(polls >= 5 && polls <= 8, `${polls} polls`);
+    });
+});
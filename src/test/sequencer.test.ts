@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { readWattBoxSequences, WattBoxArgumentError, WattBoxClient, WattBoxProtectedError, WattBoxSequencer, WattBoxSimulator } from '../module.js';
+import type { WattBoxSequenceProgress } from '../module.js';
+
+describe('WattBoxSequencer', () => {
+    let simulator: WattBoxSimulator;
+    let client: WattBoxClient;
+
+    beforeEach(async () => {
+        simulator = new WattBoxSimulator();
+        await simulator.listen();
+
+        client = new WattBoxClient({ host: '127.0.0.1', port: simulator.port, username: 'wattbox', password: 'wattbox', protectedOutlets: [3], reconnect: { maxAttempts: 0 } });
+        await client.connect();
+    });
+
+    afterEach(async () => {
+        await client.disconnect();
+        await simulator.close();
+    });
+
+    it('rolls back only the outlets changed before a failed step', async () => {
+        const sequencer = new WattBoxSequencer(client, { groups: { rack: [2, 3] }, confirmInterval: 50 });
+        const progress: WattBoxSequenceProgress[] = [];
+        sequencer.on('progress', x => progress.push(x));
+
+        const result = await sequencer.run({ name: 'down', rollback: true, steps: [{ target: 1, action: 'OFF' }, { target: 'rack', action: 'OFF' }] });
+
+        assert.equal(result.aborted, true);
+        assert.equal(result.rolledBack, true);
+        assert.ok(result.errors[0]?.error instanceof WattBoxProtectedError);
+        assert.deepEqual(await client.getOutletStatus(), [true, true, true, true, true, true]);
+
+        // Outlet 3 was never changed, so it is not rolled back
+        const rolledBack = progress.filter(x => x.status === 'rolledBack');
+        assert.deepEqual(rolledBack.map(x => [x.step, x.outlets]), [[1, [2]], [0, [1]]]);
+    });
+
+    it('rolls back the changed outlets when aborted', async () => {
+        const sequencer = new WattBoxSequencer(client, { confirmInterval: 50 });
+        const controller = new AbortController();
+        sequencer.on('progress', (x) => {
+            if (x.status === 'confirmed') {
+                controller.abort(new Error('Cancelled'));
+            }
+        });
+
+        await assert.rejects(sequencer.run({ name: 'down', rollback: true, steps: [{ target: 1, action: 'OFF', delay: 1000 }, { target: 2, action: 'OFF' }] }, { signal: controller.signal }), /Cancelled/);
+        assert.deepEqual(await client.getOutletStatus(), [true, true, true, true, true, true]);
+    });
+});
+
+describe('readWattBoxSequences', () => {
+    let directory: string;
+
+    const read = async (text: string) => {
+        const path = join(directory, 'sequences.json');
+        await writeFile(path, text);
+        return readWattBoxSequences(path);
+    };
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'wattbox-sequences-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('reads a valid definition', async () => {
+        const definition = { groups: { rack: [2, 3] }, sequences: [{ name: 'down', steps: [{ target: 'rack', action: 'OFF', delay: 1000 }, { target: 1, action: 'OFF' }] }] };
+        assert.deepEqual(await read(JSON.stringify(definition)), definition);
+    });
+
+    it('rejects malformed definitions with WattBoxArgumentError', async () => {
+        const invalid = [
+            '{',
+            'null',
+            '42',
+            '"sequences"',
+            '[]',
+            '{"groups":5}',
+            '{"groups":{"rack":[0]}}',
+            '{"sequences":{}}',
+            '{"sequences":[null]}',
+            '{"sequences":[{"name":"down","steps":[null]}]}',
+            '{"sequences":[{"name":"down","steps":[{"target":1,"action":"RESET"}]}]}',
+            '{"sequences":[{"name":"down","steps":[{"target":1,"action":"OFF","delay":-1}]}]}'
+        ];
+
+        for (const text of invalid) {
+            await assert.rejects(read(text), (err: Error) => err instanceof WattBoxArgumentError && err.message === 'Invalid Sequence Definition', text);
+        }
+    });
+});
@@ -0,0 +1,208 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import ssh2 from 'ssh2';
+import {
+    readWattBoxTranscript,
+    WATTBOX_TRANSCRIPT_REDACTED,
+    WattBoxAuthError,
+    WattBoxClient,
+    WattBoxNotConnectedError,
+    WattBoxOutletAction,
+    WattBoxReplayTransport,
+    WattBoxSimulator
+} from '../module.js';
+import type { WattBoxTranscriptEntry } from '../module.js';
+import type { AddressInfo } from 'node:net';
+import type { Server, ServerChannel } from 'ssh2';
+
+describe('WattBoxSshTransport', () => {
+    const outlets = [true, false];
+    const shells = new Set<ServerChannel>();
+    let server: Server;
+    let port: number;
+
+    // Answers the commands the client sends over the shell channel, like a WattBox
+    const respond = (line: string): string => {
+        const [command, args = ''] = line.split('=');
+        switch (command) {
+            case '?Model':
+                return '?Model=WB-800-IPVM-6';
+            case '?Firmware':
+                return '?Firmware=2.0.0.0';
+            case '?OutletCount':
+                return `?OutletCount=${outlets.length}`;
+            case '?OutletStatus':
+                return `?OutletStatus=${outlets.map(x => x ? 1 : 0).join(',')}`;
+            case '!OutletSet': {
+                const [outlet = '', action = ''] = args.split(',');
+                outlets[parseInt(outlet) - 1] = action === 'ON';
+                return 'OK';
+            }
+            default:
+                return '#Error';
+        }
+    };
+
+    before(async () => {
+        server = new ssh2.Server({ hostKeys: [ssh2.utils.generateKeyPairSync('ed25519').private] }, (connection) => {
+            connection.on('authentication', (ctx) => {
+                if (ctx.method === 'password' && ctx.username === 'wattbox' && ctx.password === 'wattbox') {
+                    ctx.accept();
+                }
+                else {
+                    ctx.reject(['password']);
+                }
+            });
+
+            connection.on('session', (accept) => {
+                accept().once('shell', (acceptShell) => {
+                    const shell = acceptShell();
+                    shells.add(shell);
+                    shell.on('close', () => shells.delete(shell));
+
+                    let buffer = '';
+                    shell.on('data', (data: Buffer) => {
+                        const lines = (buffer + data.toString('utf8')).split(/\r?\n/);
+                        buffer = lines.pop() ?? '';
+
+                        for (const line of lines) {
+                            if (line === '!Exit') {
+                                shell.close();
+                                return;
+                            }
+
+                            shell.write(`${respond(line)}\n`);
+                        }
+                    });
+                });
+            });
+
+            connection.on('error', () => undefined);
+        });
+
+        server.listen(0, '127.0.0.1');
+        await once(server, 'listening');
+        port = (server.address() as AddressInfo).port;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    const createClient = (password = 'wattbox') => new WattBoxClient({ host: '127.0.0.1', port, username: 'wattbox', password, transport: 'ssh', reconnect: { maxAttempts: 0 } });
+
+    it('logs in during the SSH handshake', async () => {
+        const client = createClient();
+        await client.connect();
+
+        assert.equal(client.state, 'ready');
+        assert.equal(client.capabilities?.model, 'WB-800-IPVM-6');
+        assert.equal(client.capabilities?.ssh, true);
+
+        await client.disconnect();
+    });
+
+    it('handles requests, controls and unsolicited messages over the channel', async () => {
+        const client = createClient();
+        await client.connect();
+
+        assert.deepEqual(await client.getOutletStatus(), [true, false]);
+        await client.setOutletAction(2, WattBoxOutletAction.ON);
+        assert.deepEqual(await client.getOutletStatus(), [true, true]);
+
+        const status = once(client, 'outletStatus');
+        shells.forEach(shell => shell.write('~OutletStatus=0,1\n'));
+        assert.deepEqual(await status, [[false, true]]);
+
+        await client.disconnect();
+    });
+
+    it('rejects with WattBoxAuthError on an authentication failure', async () => {
+        const client = createClient('invalid');
+        await assert.rejects(client.connect(), WattBoxAuthError);
+        assert.equal(client.state, 'closed');
+    });
+});
+
+describe('WattBoxReplayTransport', () => {
+    let simulator: WattBoxSimulator;
+    let directory: string;
+    let transcript: string;
+
+    const replay = (entries: WattBoxTranscriptEntry[]) => new WattBoxClient({
+        host: 'replay',
+        username: 'admin',
+        password: 'hunter2',
+        reconnect: { maxAttempts: 0 },
+        transport: () => new WattBoxReplayTransport(entries)
+    });
+
+    before(async () => {
+        simulator = new WattBoxSimulator({ username: 'admin', password: 'hunter2' });
+        await simulator.listen();
+        directory = await mkdtemp(join(tmpdir(), 'wattbox-transcript-'));
+        transcript = join(directory, 'session.jsonl');
+
+        const client = new WattBoxClient({ host: '127.0.0.1', port: simulator.port, username: 'admin', password: 'hunter2', reconnect: { maxAttempts: 0 }, record: transcript });
+        await client.connect();
+        await client.getModel();
+        await client.setOutletAction(2, WattBoxOutletAction.OFF);
+        await client.setAccount('admin', 'letmein');
+        await client.disconnect();
+
+        // The transcript is written asynchronously, and ends with the closed session
+        while ((await readWattBoxTranscript(transcript).catch(() => [])).at(-1)?.type !== 'close') {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+    });
+
+    after(async () => {
+        await simulator.close();
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('records the session with the credentials redacted', async () => {
+        const text = await readFile(transcript, 'utf8');
+        assert.ok(!text.includes('hunter2'));
+        assert.ok(!text.includes('letmein'));
+
+        const entries = await readWattBoxTranscript(transcript);
+        const outgoing = entries.filter(x => x.type === 'out').map(x => x.line);
+        assert.ok(outgoing.includes('?Model'));
+        assert.ok(outgoing.includes('!OutletSet=2,OFF'));
+        assert.ok(outgoing.includes(`!AccountSet=admin,${WATTBOX_TRANSCRIPT_REDACTED}`));
+        // Logging back in after the account change opens a new session
+        assert.deepEqual(entries.map(x => x.type).filter(x => x !== 'in' && x !== 'out'), ['open', 'open', 'close']);
+        assert.ok(entries.every(x => !isNaN(Date.parse(x.time))));
+    });
+
+    it('replays the recorded session', async () => {
+        const client = replay(await readWattBoxTranscript(transcript));
+        await client.connect();
+
+        assert.equal(client.capabilities?.model, 'WB-800-IPVM-6');
+        assert.equal(await client.getModel(), 'WB-800-IPVM-6');
+        await client.setOutletAction(2, WattBoxOutletAction.OFF);
+        await client.disconnect();
+    });
+
+    it('fails with a replay mismatch when the client sends something else', async () => {
+        const client = replay(await readWattBoxTranscript(transcript));
+        await client.connect();
+
+        const errors: string[] = [];
+        client.on('debugsock', (event, message) => {
+            if (event === 'error') {
+                errors.push(message ?? '');
+            }
+        });
+
+        await assert.rejects(client.getFirmware(), WattBoxNotConnectedError);
+        assert.deepEqual(errors, ['Replay Mismatch: Expected ?Model, Got ?Firmware']);
+        await client.disconnect();
+    });
+});
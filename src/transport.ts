@@ -0,0 +1,316 @@
+import { EventEmitter } from 'events';
+import { readFile } from 'fs/promises';
+import { Socket } from 'net';
+import type { Client, ClientChannel, ClientErrorExtensions } from 'ssh2';
+
+/**
+ * A bidirectional text connection to a WattBox, over which the integration
+ * protocol is spoken.
+ */
+export interface WattBoxTransport extends EventEmitter<WattBoxTransportEvents> {
+    /** Open the connection. */
+    connect(): void;
+    /** Gracefully close the connection. */
+    end(): void;
+    /** Immediately close the connection. */
+    destroy(): void;
+    /** Write raw protocol data to the connection. */
+    write(data: string): void;
+}
+
+export interface WattBoxTransportEvents {
+    /** Emitted when the connection is open and protocol data can be exchanged. */
+    connect: [];
+    /** Emitted when protocol data is received. */
+    data: [data: string];
+    /** Emitted when the transport authenticates the session itself (e.g. SSH). */
+    login: [success: boolean];
+    /** Emitted when the connection is idle for longer than the timeout. */
+    timeout: [];
+    /** Emitted when the connection is closed. */
+    close: [];
+    /** Emitted when a connection error occurs. */
+    error: [err: Error];
+}
+
+export type WattBoxTransportType = 'telnet' | 'ssh';
+
+/** Creates the transport for each connection attempt, e.g. a {@link WattBoxReplayTransport}. */
+export type WattBoxTransportFactory = (opts: WattBoxTransportOpts) => WattBoxTransport;
+
+export interface WattBoxTransportOpts {
+    host: string;
+    port: number;
+    username: string;
+    password: string;
+    timeout: number;
+}
+
+/**
+ * Plaintext TCP transport, the WattBox telnet service on port 23 by default.
+ */
+export class WattBoxTelnetTransport extends EventEmitter<WattBoxTransportEvents> implements WattBoxTransport {
+    #opts: WattBoxTransportOpts;
+    #socket = new Socket();
+
+    constructor(opts: WattBoxTransportOpts) {
+        super();
+        this.#opts = opts;
+
+        this.#socket.setEncoding('utf8');
+        this.#socket.setKeepAlive(true, opts.timeout);
+        this.#socket.setTimeout(opts.timeout);
+
+        this.#socket.on('connect', () => this.emit('connect'));
+        this.#socket.on('data', (data: string) => this.emit('data', data));
+        this.#socket.on('timeout', () => this.emit('timeout'));
+        this.#socket.on('close', () => this.emit('close'));
+        this.#socket.on('error', err => this.emit('error', err));
+    }
+
+    public connect(): void {
+        this.#socket.connect(this.#opts.port, this.#opts.host);
+    }
+
+    public end(): void {
+        this.#socket.end();
+    }
+
+    public destroy(): void {
+        this.#socket.destroy();
+    }
+
+    public write(data: string): void {
+        this.#socket.write(data);
+    }
+}
+
+/**
+ * SSH transport, the WattBox SSH service on port 22 by default.
+ * @remarks
+ * Requires WattBox firmware 1.3.0.4 or later. The session is authenticated
+ * during the SSH handshake, so the username and password are never sent in
+ * plaintext.
+ */
+export class WattBoxSshTransport extends EventEmitter<WattBoxTransportEvents> implements WattBoxTransport {
+    #opts: WattBoxTransportOpts;
+    #client: Client | null = null;
+    #channel: ClientChannel | null = null;
+    #closed = false;
+
+    constructor(opts: WattBoxTransportOpts) {
+        super();
+        this.#opts = opts;
+    }
+
+    public connect(): void {
+        this.#connect().catch((err: unknown) => {
+            this.emit('error', err instanceof Error ? err : new Error(String(err)));
+            this.emit('close');
+        });
+    }
+
+    public end(): void {
+        if (this.#channel) {
+            this.#channel.end();
+        }
+        else if (this.#client) {
+            this.#client.end();
+        }
+        else {
+            this.#closed = true;
+        }
+    }
+
+    public destroy(): void {
+        if (this.#client) {
+            this.#client.destroy();
+        }
+        else {
+            this.#closed = true;
+        }
+    }
+
+    public write(data: string): void {
+        this.#channel?.write(data);
+    }
+
+    // ssh2 is loaded on first connect, so telnet-only consumers never load it
+    async #connect(): Promise<void> {
+        const { default: ssh2 } = await import('ssh2');
+
+        // Closed while loading
+        if (this.#closed) {
+            this.emit('close');
+            return;
+        }
+
+        const client = new ssh2.Client();
+        this.#client = client;
+
+        client.on('keyboard-interactive', (_name, _instructions, _lang, prompts, finish) => {
+            finish(prompts.map(() => this.#opts.password));
+        });
+
+        client.on('ready', () => {
+            client.shell(false, (err, channel) => {
+                if (err) {
+                    this.emit('error', err);
+                    client.end();
+                    return;
+                }
+
+                this.#channel = channel;
+                this.#channel.setEncoding('utf8');
+                this.#channel.on('data', (data: string) => this.emit('data', data));
+                this.#channel.on('close', () => client.end());
+
+                this.emit('connect');
+                this.emit('login', true);
+            });
+        });
+
+        client.on('close', () => {
+            this.#channel = null;
+            this.emit('close');
+        });
+
+        client.on('error', (err: Error & ClientErrorExtensions) => {
+            if (err.level === 'client-authentication') {
+                this.emit('login', false);
+                return;
+            }
+
+            this.emit('error', err);
+        });
+
+        client.connect({
+            host: this.#opts.host,
+            port: this.#opts.port,
+            username: this.#opts.username,
+            password: this.#opts.password,
+            tryKeyboard: true,
+            keepaliveInterval: this.#opts.timeout,
+            readyTimeout: this.#opts.timeout
+        });
+    }
+}
+
+/** Replaces credentials in recorded transcripts. */
+export const WATTBOX_TRANSCRIPT_REDACTED = '[REDACTED]';
+
+/** A line of a recorded session transcript, stored as JSONL. */
+export interface WattBoxTranscriptEntry {
+    /** When the entry was recorded, as an ISO 8601 timestamp */
+    time: string;
+    /** The connection opened, logged in or closed, or a line was received from or sent to the WattBox */
+    type: 'open' | 'login' | 'close' | 'in' | 'out';
+    /** The line without the line terminator, for in and out entries */
+    line?: string;
+    /** Whether the login succeeded, for login entries */
+    success?: boolean;
+}
+
+/**
+ * Read a recorded session transcript.
+ * @param path - The path of the JSONL transcript file
+ * @returns The transcript entries
+ */
+export async function readWattBoxTranscript(path: string): Promise<WattBoxTranscriptEntry[]> {
+    const text = await readFile(path, 'utf8');
+    return text.split('\n').filter(x => x.trim().length > 0).map(x => JSON.parse(x) as WattBoxTranscriptEntry);
+}
+
+/**
+ * Replays the first session of a recorded transcript as if it were a WattBox.
+ * @remarks
+ * Received lines are replayed up to the next sent line, and each line written must match the
+ * recorded line, where redacted credentials match anything. A mismatch emits an error and
+ * closes the connection. The connection closes where the recorded session closed.
+ */
+export class WattBoxReplayTransport extends EventEmitter<WattBoxTransportEvents> implements WattBoxTransport {
+    #entries: WattBoxTranscriptEntry[];
+
+    #closed = false;
+    #cursor = -1;
+
+    constructor(entries: WattBoxTranscriptEntry[]) {
+        super();
+        this.#entries = entries;
+    }
+
+    public connect(): void {
+        setImmediate(() => {
+            this.#cursor = this.#entries.findIndex(x => x.type === 'open');
+            if (this.#cursor < 0) {
+                this.emit('error', new Error('Transcript Has No Session'));
+                this.destroy();
+                return;
+            }
+
+            this.#cursor++;
+            this.emit('connect');
+            this.#replay();
+        });
+    }
+
+    public end(): void {
+        this.destroy();
+    }
+
+    public destroy(): void {
+        if (!this.#closed) {
+            this.#closed = true;
+            setImmediate(() => this.emit('close'));
+        }
+    }
+
+    public write(data: string): void {
+        if (this.#closed) {
+            return;
+        }
+
+        for (const line of data.split('\n').filter(x => x.length > 0)) {
+            const expected = this.#entries[this.#cursor];
+            if (expected?.type !== 'out' || !this.#matches(expected.line ?? '', line)) {
+                this.emit('error', new Error(`Replay Mismatch: Expected ${expected?.type === 'out' ? expected.line : expected?.type ?? 'end'}, Got ${line}`));
+                this.destroy();
+                return;
+            }
+
+            this.#cursor++;
+        }
+
+        setImmediate(() => this.#replay());
+    }
+
+    // Replay received lines until the client is expected to send a line
+    #replay(): void {
+        while (!this.#closed) {
+            const entry = this.#entries[this.#cursor];
+            if (!entry || entry.type === 'out') {
+                return;
+            }
+
+            this.#cursor++;
+
+            switch (entry.type) {
+                case 'in':
+                    this.emit('data', `${entry.line ?? ''}\n`);
+                    break;
+                case 'login':
+                    this.emit('login', entry.success ?? false);
+                    break;
+                case 'open':
+                case 'close':
+                    this.destroy();
+                    return;
+            }
+        }
+    }
+
+    #matches(expected: string, line: string): boolean {
+        const pattern = expected.split(WATTBOX_TRANSCRIPT_REDACTED).map(x => x.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        return new RegExp(`^${pattern}$`, 's').test(line);
+    }
+}